@@ -0,0 +1,84 @@
+/* App-shell service worker: precaches the built assets listed in
+ * precache-manifest.json and serves them cache-first. Navigations are
+ * network-first with the cached index.html as offline fallback. Weather API
+ * responses are not cached here; the app keeps those in IndexedDB. */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `weather-app-shell-${CACHE_VERSION}`;
+const MANIFEST_URL = 'precache-manifest.json';
+
+function scopedUrl(path) {
+  return new URL(path, self.registration.scope).toString();
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      let assets = ['./', 'index.html'];
+      try {
+        const response = await fetch(scopedUrl(MANIFEST_URL), { cache: 'no-store' });
+        if (response.ok) {
+          assets = assets.concat(await response.json());
+        }
+      } catch {
+        // No manifest (e.g. dev server); shell assets are cached on first use instead
+      }
+      await cache.addAll([...new Set(assets)].map(scopedUrl));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter((key) => key.startsWith('weather-app-shell-') && key !== SHELL_CACHE)
+          .map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      (async () => {
+        try {
+          const response = await fetch(request);
+          const cache = await caches.open(SHELL_CACHE);
+          await cache.put(scopedUrl('index.html'), response.clone());
+          return response;
+        } catch {
+          const cached = await caches.match(scopedUrl('index.html'));
+          return cached || Response.error();
+        }
+      })()
+    );
+    return;
+  }
+
+  event.respondWith(
+    (async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+
+      const response = await fetch(request);
+      if (response.ok) {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })()
+  );
+});
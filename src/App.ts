@@ -1,123 +1,475 @@
-import { WeatherService } from './services/weatherService';
+import { CachedWeatherService, normalizeQuery, type RevalidatedEvent } from './services/cachedWeatherService';
 import { LocationSearch } from './components/LocationSearch';
 import { CurrentWeather } from './components/CurrentWeather';
+import { AlertBanner } from './components/AlertBanner';
+import { HourlyForecast } from './components/HourlyForecast';
+import { AirQualityCard } from './components/AirQualityCard';
 import { WeatherForecast } from './components/WeatherForecast';
+import { ForecastChart } from './components/ForecastChart';
+import { HistoryView } from './components/HistoryView';
+import { DayDetail } from './components/DayDetail';
+import { NotFoundError } from './services/errors';
 import { AppState } from './state/AppState';
-import type { LocationSuggestion } from './types/weather';
+import { UrlRouter, type RouteState } from './state/UrlRouter';
+import { ThemeManager } from './state/ThemeManager';
+import { UnitSettings } from './components/UnitSettings';
+import { FavoritesDashboard, type FavoriteEntry } from './components/FavoritesDashboard';
+import { NotificationCenter } from './components/NotificationCenter';
+import { NotificationRules } from './components/NotificationRules';
+import type { LocationSuggestion, WeatherAlert, WeatherData } from './types/weather';
+import type { UnitPreferences } from './types/units';
+import type { Locale } from './types/i18n';
+import type { ThemePreference } from './types/theme';
+import type { PersistedPreferences, StateDevtools } from './types/state';
+import type { NotificationRule } from './types/notifications';
+import { formatDate, setCurrentLocale, t } from './i18n';
+import { getLocationKey, getLocationQuery, isSameLocation } from './utils/location';
+import { mapWithConcurrency } from './utils/concurrency';
+import { addDays, addYears } from './utils/date';
+import { saveWeatherSnapshot, loadWeatherSnapshot } from './utils/offlineStore';
+import { areUnitPreferencesEqual } from './utils/units';
+import { watchPreferences } from './utils/preferences';
+import { StorageQuotaError } from './utils/storage';
+import {
+  describeRule,
+  evaluateRule,
+  formatMetricValue,
+  getRuleForecastDays,
+  isRuleCoolingDown,
+} from './utils/notificationRules';
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+  showSystemNotification,
+} from './utils/notifications';
 
 const REFRESH_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+const PERSIST_DEBOUNCE_MS = 500;
 const DEFAULT_CITY = 'London';
+const FAVORITES_CONCURRENCY = 3;
+const MAX_NOT_FOUND_SUGGESTIONS = 5;
 
 /**
  * Main application controller that coordinates all components,
  * manages the application lifecycle, and handles data flow.
  */
 export class App {
-  private weatherService: WeatherService;
+  private weatherService: CachedWeatherService;
   private state: AppState;
+  private router: UrlRouter;
+  private themeManager: ThemeManager;
+  private applyingRoute = false;
+  private retryLastLoad: (() => void) | null = null;
+  private loadController: AbortController | null = null;
   private locationSearch!: LocationSearch;
+  private unitSettings!: UnitSettings;
+  private alertBanner!: AlertBanner;
   private currentWeather!: CurrentWeather;
+  private hourlyForecast!: HourlyForecast;
+  private airQualityCard!: AirQualityCard;
   private weatherForecast!: WeatherForecast;
+  private forecastChart!: ForecastChart;
+  private historyView!: HistoryView;
+  private historyController: AbortController | null = null;
+  private historyLocationKey: string | null = null;
+  private dayDetail!: DayDetail;
+  private favoritesDashboard!: FavoritesDashboard;
+  private favoriteWeather: Map<string, WeatherData | null> = new Map();
+  private notificationCenter!: NotificationCenter;
+  private notificationRules!: NotificationRules;
   private refreshTimer: ReturnType<typeof setInterval> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
   private unsubscribeState: (() => void) | null = null;
+  private unsubscribeUnits: (() => void) | null = null;
+  private unsubscribeCache: (() => void) | null = null;
+  private unsubscribeRouter: (() => void) | null = null;
+  private unwatchPreferences: (() => void) | null = null;
   private boundOnlineHandler: () => void;
   private boundOfflineHandler: () => void;
+  private boundPageHideHandler: () => void;
 
   constructor() {
-    this.weatherService = new WeatherService();
+    this.weatherService = new CachedWeatherService();
     this.state = new AppState();
+    this.router = new UrlRouter();
+    this.themeManager = new ThemeManager();
     this.boundOnlineHandler = this.handleOnline.bind(this);
     this.boundOfflineHandler = this.handleOffline.bind(this);
+    this.boundPageHideHandler = this.flushPersist.bind(this);
   }
 
   /**
    * Initializes the application: renders the layout, sets up components,
-   * loads saved preferences, and fetches initial weather data.
+   * loads saved preferences, and fetches initial weather data. A location,
+   * unit or day in the URL takes precedence over saved preferences.
    */
   async init(): Promise<void> {
+    // The locale must be known before anything renders text
+    this.state.loadFromStorage();
+    this.applyLocale();
+    this.themeManager.setTheme(this.state.theme);
+
     this.renderLayout();
     this.initComponents();
     this.setupStateSubscription();
     this.setupBrowserEvents();
     this.startAutoRefresh();
 
-    this.state.loadFromStorage();
+    if (import.meta.env.DEV) {
+      this.exposeDevtools();
+    }
 
-    if (this.state.currentLocation) {
-      await this.loadWeatherForLocation(this.state.currentLocation);
-    } else {
-      await this.loadWeatherForCity(DEFAULT_CITY);
+    this.unitSettings.setUnits(this.state.units);
+    this.weatherForecast.setDayCount(this.state.forecastDays, this.weatherService.getMaxForecastDays());
+    this.syncFavorites();
+    this.locationSearch.setRecentSearches(this.state.recentSearches);
+    this.refreshFavorites();
+
+    const route = this.router.getRoute();
+    if (!route.location && !route.query) {
+      route.location = this.state.currentLocation;
+      route.query = route.location ? null : DEFAULT_CITY;
     }
+
+    await this.applyRoute(route, true);
+    this.syncUrl('replace');
   }
 
   /**
-   * Fetches and displays weather data for the given location.
+   * Fetches and displays weather data for the given location. Starting a new
+   * load aborts the previous one, so only the latest request updates state.
    * @param location - The location to load weather for
    */
   async loadWeatherForLocation(location: LocationSuggestion): Promise<void> {
+    const signal = this.beginLoad();
+    this.retryLastLoad = () => this.loadWeatherForLocation(location);
     this.state.setLocation(location);
     this.state.setLoading(true);
+    this.syncUrl('push');
 
     this.currentWeather.showLoading();
+    this.hourlyForecast.showLoading();
     this.weatherForecast.showLoading();
+    this.forecastChart.showLoading();
+    this.currentWeather.setComparison(null);
 
     try {
-      const data = await this.weatherService.getForecast(location.name, 5);
+      const query = getLocationQuery(location);
+      const response = await this.weatherService.getForecast(query, this.state.forecastDays, signal);
+      if (signal.aborted) return;
+
+      const data = withLocationIdentity(response, location);
+
       this.state.setWeatherData(data);
       this.state.setLoading(false);
-      this.state.saveToStorage();
 
-      this.currentWeather.render(data);
-      this.weatherForecast.render(data.forecast, this.state.temperatureUnit);
+      this.renderWeather(data);
+      this.persistSnapshot(location, data);
+      this.prepareHistory(location, data, signal);
+      this.checkNotificationRules();
+      if (navigator.onLine) {
+        this.hideStatus();
+      }
     } catch (error) {
+      if (signal.aborted) return;
+      if (await this.restoreSnapshot(location, signal)) return;
       this.handleError(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  /**
+   * Fetches and displays observed weather for the current location on a past date.
+   * @param date - The day as "YYYY-MM-DD"
+   */
+  async loadHistory(date: string): Promise<void> {
+    const location = this.state.currentLocation;
+    if (!location) return;
+
+    this.historyController?.abort();
+    this.historyController = new AbortController();
+    const signal = this.historyController.signal;
+
+    this.historyView.showLoading();
+
+    try {
+      const history = await this.weatherService.getHistory(getLocationQuery(location), date, signal);
+      if (signal.aborted) return;
+      this.historyView.render(history);
+    } catch (error) {
+      if (signal.aborted) return;
+      this.historyView.showError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   /**
    * Toggles the temperature unit between Celsius and Fahrenheit
    * and re-renders affected components.
    */
   toggleTemperatureUnit(): void {
-    const newUnit = this.state.temperatureUnit === 'C' ? 'F' : 'C';
-    this.state.setTemperatureUnit(newUnit);
-    this.state.saveToStorage();
+    const temperature = this.state.units.temperature === 'C' ? 'F' : 'C';
+    this.setUnits({ ...this.state.units, temperature });
+  }
 
-    this.currentWeather.toggleTemperatureUnit();
+  /**
+   * Applies new unit preferences and persists them. Components that display
+   * measurements re-render through their AppState subscriptions.
+   * @param units - The new unit preferences
+   */
+  setUnits(units: UnitPreferences): void {
+    this.state.setUnits(units);
+  }
 
-    if (this.state.weatherData) {
-      this.weatherForecast.render(this.state.weatherData.forecast, newUnit);
+  /**
+   * Changes the forecast length, persists it and reloads the current location.
+   * @param days - One of the offered forecast lengths
+   */
+  setForecastDays(days: number): void {
+    this.state.setForecastDays(days);
+    this.weatherForecast.setDayCount(this.state.forecastDays, this.weatherService.getMaxForecastDays());
+
+    if (this.state.currentLocation) {
+      this.loadWeatherForLocation(this.state.currentLocation);
+    }
+  }
+
+  /**
+   * Switches the display language, persists it and reloads the current
+   * location and favorites so condition texts arrive in the new language.
+   * @param locale - One of the supported locales
+   */
+  setLocale(locale: Locale): void {
+    if (locale === this.state.locale) return;
+
+    this.state.setLocale(locale);
+    this.applyLocale();
+    this.unitSettings.setLocale(locale);
+    this.locationSearch.refreshLabels();
+    this.notificationCenter.render();
+    this.notificationRules.render();
+
+    const titleEl = document.querySelector('.app__title');
+    if (titleEl) {
+      titleEl.textContent = t('app.title');
     }
+
+    // Let the next load reset the history view so it refetches in the new language
+    this.historyLocationKey = null;
+    if (this.state.currentLocation) {
+      this.loadWeatherForLocation(this.state.currentLocation);
+    }
+    this.refreshFavorites(true);
+  }
+
+  /**
+   * Switches the theme immediately and persists it.
+   * @param theme - A fixed theme, or "auto" to follow the system
+   */
+  setTheme(theme: ThemePreference): void {
+    this.state.setTheme(theme);
+    this.themeManager.setTheme(theme);
+    this.unitSettings.setAppearance(theme, this.state.ambientBackground);
+  }
+
+  /**
+   * Turns the condition-based background on or off and persists the choice.
+   * @param enabled - Whether the background follows the current weather
+   */
+  setAmbientBackground(enabled: boolean): void {
+    this.state.setAmbientBackground(enabled);
+    this.unitSettings.setAppearance(this.state.theme, enabled);
+    this.themeManager.setAmbient(enabled ? this.state.weatherData?.current ?? null : null);
+  }
+
+  /**
+   * Adds the location to favorites, or removes it if it is already saved.
+   * @param location - The location to star or unstar
+   */
+  toggleFavorite(location: LocationSuggestion): void {
+    if (this.state.isFavorite(location)) {
+      this.state.removeFavorite(location);
+      this.favoriteWeather.delete(getLocationKey(location));
+    } else {
+      this.state.addFavorite(location);
+      if (this.state.weatherData && this.state.currentLocation && isSameLocation(this.state.currentLocation, location)) {
+        this.favoriteWeather.set(getLocationKey(location), this.state.weatherData);
+      }
+    }
+
+    this.syncFavorites();
+    this.refreshFavorites();
+  }
+
+  /**
+   * Fetches current conditions for favorites, a few at a time,
+   * and updates the dashboard as a batch. Favorites that a notification
+   * rule refers to are fetched with enough forecast days for their rules.
+   * @param force - Refetch favorites that already have data, keeping it on screen meanwhile
+   */
+  async refreshFavorites(force: boolean = false): Promise<void> {
+    const ruleDays = this.getFavoriteRuleDays();
+    const favorites = this.state.favorites.filter((fav) => {
+      const key = getLocationKey(fav);
+      return force || !this.favoriteWeather.has(key) || this.lacksRuleForecast(key, ruleDays.get(key));
+    });
+    if (favorites.length === 0) return;
+
+    const results = await mapWithConcurrency(favorites, FAVORITES_CONCURRENCY, (fav) => {
+      const days = ruleDays.get(getLocationKey(fav));
+      return days
+        ? this.weatherService.getForecast(getLocationQuery(fav), days)
+        : this.weatherService.getCurrentWeather(getLocationQuery(fav));
+    });
+
+    results.forEach((result, i) => {
+      this.favoriteWeather.set(
+        getLocationKey(favorites[i]),
+        result.status === 'fulfilled' ? result.value : null
+      );
+    });
+
+    this.renderFavorites();
+    this.checkNotificationRules();
+  }
+
+  /**
+   * Adds a notification rule and checks it against the weather already
+   * loaded. Called from the form's submit, so it also asks for permission
+   * to show browser notifications the first time.
+   * @param rule - The rule to add
+   */
+  addNotificationRule(rule: NotificationRule): void {
+    this.state.addNotificationRule(rule);
+    this.enableBrowserNotifications();
+    this.checkNotificationRules();
+    // A favorite loaded with current conditions only needs its forecast now
+    this.refreshFavorites();
   }
 
   /**
-   * Handles application errors by updating state and displaying error messages.
+   * Handles application errors by updating state and displaying an error view
+   * matching the error type. Unknown locations are followed by a search for
+   * close matches to suggest.
    * @param error - The error to handle
    */
   handleError(error: Error): void {
     console.error('[WeatherApp]', error.message);
     this.state.setError(error.message);
-    this.currentWeather.showError(error.message);
+    this.alertBanner.clear();
+    this.airQualityCard.clear();
+    this.forecastChart.clear();
+    this.currentWeather.showError(error);
+
+    if (error instanceof NotFoundError && error.suggestions.length === 0) {
+      this.suggestAlternatives(error);
+    }
   }
 
   /**
    * Cleans up all event listeners, timers, and component resources.
    */
   destroy(): void {
+    this.loadController?.abort();
+    this.loadController = null;
+    this.historyController?.abort();
+    this.historyController = null;
+
     if (this.refreshTimer) {
       clearInterval(this.refreshTimer);
       this.refreshTimer = null;
     }
 
+    this.flushPersist();
     if (this.unsubscribeState) {
       this.unsubscribeState();
       this.unsubscribeState = null;
     }
 
+    if (this.unsubscribeUnits) {
+      this.unsubscribeUnits();
+      this.unsubscribeUnits = null;
+    }
+
+    if (this.unsubscribeCache) {
+      this.unsubscribeCache();
+      this.unsubscribeCache = null;
+    }
+
+    if (this.unsubscribeRouter) {
+      this.unsubscribeRouter();
+      this.unsubscribeRouter = null;
+    }
+
+    if (this.unwatchPreferences) {
+      this.unwatchPreferences();
+      this.unwatchPreferences = null;
+    }
+    this.router.destroy();
+    this.themeManager.destroy();
+
     window.removeEventListener('online', this.boundOnlineHandler);
     window.removeEventListener('offline', this.boundOfflineHandler);
+    window.removeEventListener('pagehide', this.boundPageHideHandler);
+    delete window.__weatherDevtools;
 
     this.locationSearch.destroy();
+    this.unitSettings.destroy();
+    this.dayDetail.destroy();
+    this.forecastChart.destroy();
+    this.currentWeather.destroy();
+    this.hourlyForecast.destroy();
+    this.weatherForecast.destroy();
+    this.historyView.destroy();
+    this.favoritesDashboard.destroy();
+    this.notificationCenter.destroy();
+    this.notificationRules.destroy();
+  }
+
+  private renderWeather(data: WeatherData): void {
+    const { currentLocation } = this.state;
+
+    if (currentLocation && this.state.isFavorite(currentLocation)) {
+      this.favoriteWeather.set(getLocationKey(currentLocation), data);
+    }
+
+    this.alertBanner.render(this.state.getActiveAlerts());
+    this.currentWeather.setFavorite(currentLocation ? this.state.isFavorite(currentLocation) : false);
+    this.currentWeather.render(data);
+    this.airQualityCard.render(data.current.airQuality);
+    this.hourlyForecast.render(data.forecast);
+    // Loading a forecast may reveal that the provider serves fewer days than requested
+    this.weatherForecast.setDayCount(this.state.forecastDays, this.weatherService.getMaxForecastDays());
+    this.weatherForecast.render(data.forecast, data.location.tzId);
+    this.forecastChart.render(data.forecast, data.location.tzId);
+    this.dayDetail.update(data.forecast);
+    this.renderFavorites();
+    this.themeManager.setAmbient(this.state.ambientBackground ? data.current : null);
+  }
+
+  private renderFavorites(): void {
+    const entries: FavoriteEntry[] = this.state.favorites.map((location) => {
+      const key = getLocationKey(location);
+      const data = this.favoriteWeather.get(key);
+      return {
+        location,
+        data: data ?? null,
+        status: data ? 'ready' : this.favoriteWeather.has(key) ? 'error' : 'loading',
+      };
+    });
+    this.favoritesDashboard.render(entries);
+  }
+
+  /**
+   * Propagates the favorites list to every component that shows a star.
+   */
+  private syncFavorites(): void {
+    const { currentLocation, favorites } = this.state;
+    this.currentWeather.setFavorite(currentLocation ? this.state.isFavorite(currentLocation) : false);
+    this.locationSearch.setFavorites(favorites);
+    this.renderFavorites();
+  }
+
+  private syncRecentSearches(): void {
+    this.locationSearch.setRecentSearches(this.state.recentSearches);
   }
 
   private renderLayout(): void {
@@ -129,13 +481,23 @@ export class App {
     appEl.innerHTML = `
       <div class="app">
         <header class="app__header">
-          <h1 class="app__title">Weather</h1>
+          <h1 class="app__title">${t('app.title')}</h1>
           <div id="location-search"></div>
+          <div id="notification-center"></div>
+          <div id="unit-settings"></div>
         </header>
         <main class="app__main">
+          <div id="favorites-dashboard"></div>
+          <div id="weather-alerts"></div>
           <div id="current-weather"></div>
+          <div id="hourly-forecast"></div>
+          <div id="air-quality"></div>
           <div id="weather-forecast"></div>
+          <div id="forecast-chart"></div>
+          <div id="weather-history"></div>
+          <div id="notification-rules"></div>
         </main>
+        <div id="day-detail"></div>
         <div id="app-status" class="app__status app__status--hidden"></div>
       </div>
     `;
@@ -143,29 +505,451 @@ export class App {
 
   private initComponents(): void {
     const searchContainer = document.getElementById('location-search')!;
+    const unitSettingsContainer = document.getElementById('unit-settings')!;
+    const alertsContainer = document.getElementById('weather-alerts')!;
     const currentContainer = document.getElementById('current-weather')!;
+    const hourlyContainer = document.getElementById('hourly-forecast')!;
+    const airQualityContainer = document.getElementById('air-quality')!;
     const forecastContainer = document.getElementById('weather-forecast')!;
+    const chartContainer = document.getElementById('forecast-chart')!;
+    const historyContainer = document.getElementById('weather-history')!;
+    const dayDetailContainer = document.getElementById('day-detail')!;
+    const favoritesContainer = document.getElementById('favorites-dashboard')!;
+    const notificationCenterContainer = document.getElementById('notification-center')!;
+    const notificationRulesContainer = document.getElementById('notification-rules')!;
 
     this.locationSearch = new LocationSearch(searchContainer, this.weatherService);
     this.locationSearch.render();
     this.locationSearch.addEventListener('locationSelected', ((e: Event) => {
       const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.state.addRecentSearch(detail.location);
+      this.syncRecentSearches();
+      this.loadWeatherForLocation(detail.location);
+    }) as EventListener);
+    this.locationSearch.addEventListener('locationFollowed', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.loadWeatherForLocation(detail.location);
+    }) as EventListener);
+    this.locationSearch.addEventListener('recentRemoved', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.state.removeRecentSearch(detail.location);
+      this.syncRecentSearches();
+    }) as EventListener);
+    this.locationSearch.addEventListener('historyCleared', () => {
+      this.state.clearRecentSearches();
+      this.syncRecentSearches();
+    });
+    this.locationSearch.addEventListener('favoriteToggled', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.toggleFavorite(detail.location);
+    }) as EventListener);
+
+    this.unitSettings = new UnitSettings(unitSettingsContainer);
+    this.unitSettings.render(this.state.units, this.state.locale, this.state.theme, this.state.ambientBackground);
+    this.unitSettings.addEventListener('unitsChanged', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { units: UnitPreferences };
+      this.setUnits(detail.units);
+    }) as EventListener);
+    this.unitSettings.addEventListener('localeChanged', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { locale: Locale };
+      this.setLocale(detail.locale);
+    }) as EventListener);
+    this.unitSettings.addEventListener('themeChanged', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { theme: ThemePreference };
+      this.setTheme(detail.theme);
+    }) as EventListener);
+    this.unitSettings.addEventListener('ambientChanged', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { enabled: boolean };
+      this.setAmbientBackground(detail.enabled);
+    }) as EventListener);
+
+    this.notificationCenter = new NotificationCenter(notificationCenterContainer);
+    this.notificationCenter.render(getNotificationPermission());
+    this.notificationCenter.addEventListener('permissionRequested', () => {
+      this.enableBrowserNotifications();
+    });
+
+    this.notificationRules = new NotificationRules(notificationRulesContainer, this.state);
+    this.notificationRules.render();
+    this.notificationRules.addEventListener('ruleAdded', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { rule: NotificationRule };
+      this.addNotificationRule(detail.rule);
+    }) as EventListener);
+    this.notificationRules.addEventListener('ruleToggled', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { id: string; enabled: boolean };
+      this.state.setNotificationRuleEnabled(detail.id, detail.enabled);
+      if (detail.enabled) {
+        this.checkNotificationRules();
+        this.refreshFavorites();
+      }
+    }) as EventListener);
+    this.notificationRules.addEventListener('ruleRemoved', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { id: string };
+      this.state.removeNotificationRule(detail.id);
+    }) as EventListener);
+
+    this.alertBanner = new AlertBanner(alertsContainer);
+    this.alertBanner.addEventListener('alertDismissed', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { alert: WeatherAlert };
+      this.state.dismissAlert(detail.alert);
+      this.alertBanner.render(this.state.getActiveAlerts());
+    }) as EventListener);
+
+    this.currentWeather = new CurrentWeather(currentContainer, this.state);
+    this.currentWeather.addEventListener('retry', () => {
+      this.retryLastLoad?.();
+    });
+    this.currentWeather.addEventListener('suggestionSelected', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.locationSearch.stopFollowing();
       this.loadWeatherForLocation(detail.location);
     }) as EventListener);
+    this.currentWeather.addEventListener('unitToggled', () => {
+      this.toggleTemperatureUnit();
+    });
+    this.currentWeather.addEventListener('favoriteToggled', () => {
+      if (this.state.currentLocation) {
+        this.toggleFavorite(this.state.currentLocation);
+      }
+    });
+    this.hourlyForecast = new HourlyForecast(hourlyContainer, this.state);
+    this.airQualityCard = new AirQualityCard(airQualityContainer);
+    this.weatherForecast = new WeatherForecast(forecastContainer, this.state);
+    this.forecastChart = new ForecastChart(chartContainer, this.state);
+
+    this.historyView = new HistoryView(historyContainer, this.state);
+    this.historyView.addEventListener('dateSelected', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { date: string };
+      this.loadHistory(detail.date);
+    }) as EventListener);
+    this.dayDetail = new DayDetail(dayDetailContainer, this.state);
+
+    this.favoritesDashboard = new FavoritesDashboard(favoritesContainer, this.state);
+    this.favoritesDashboard.addEventListener('favoriteSelected', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.locationSearch.stopFollowing();
+      this.loadWeatherForLocation(detail.location);
+    }) as EventListener);
+    this.favoritesDashboard.addEventListener('favoriteRemoved', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { location: LocationSuggestion };
+      this.toggleFavorite(detail.location);
+    }) as EventListener);
+    this.favoritesDashboard.addEventListener('favoritesReordered', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { from: number; to: number };
+      this.state.moveFavorite(detail.from, detail.to);
+      this.renderFavorites();
+    }) as EventListener);
+    this.weatherForecast.addEventListener('daysChanged', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { days: number };
+      this.setForecastDays(detail.days);
+    }) as EventListener);
+    this.weatherForecast.addEventListener('daySelected', ((e: Event) => {
+      const detail = (e as CustomEvent).detail as { index: number };
+      if (this.state.weatherData) {
+        this.dayDetail.open(this.state.weatherData.forecast, detail.index);
+        this.syncUrl('push');
+      }
+    }) as EventListener);
+    this.dayDetail.addEventListener('daySelected', () => {
+      this.syncUrl('replace');
+    });
+    this.dayDetail.addEventListener('closed', () => {
+      this.syncUrl('replace');
+    });
+  }
+
+  /**
+   * Brings the app in line with a route from the URL: unit, location and open day.
+   * URL updates are suppressed meanwhile so applying a route never rewrites history.
+   * @param route - The route to apply
+   * @param forceReload - Load the route's location even if it is already current
+   */
+  private async applyRoute(route: RouteState, forceReload: boolean = false): Promise<void> {
+    this.applyingRoute = true;
+    try {
+      // A shared link's unit is shown without overwriting the recipient's saved choice
+      if (route.unit && route.unit !== this.state.units.temperature) {
+        this.state.setSessionUnits({ ...this.state.units, temperature: route.unit });
+      }
 
-    this.currentWeather = new CurrentWeather(currentContainer);
-    this.weatherForecast = new WeatherForecast(forecastContainer);
+      const { currentLocation } = this.state;
+      if (route.location) {
+        if (forceReload || !currentLocation || !isSameLocation(currentLocation, route.location)) {
+          this.dayDetail.close();
+          await this.loadWeatherForLocation(route.location);
+        }
+      } else if (route.query) {
+        this.dayDetail.close();
+        await this.loadWeatherForCity(route.query);
+      }
+
+      const forecast = this.state.weatherData?.forecast ?? [];
+      if (route.day !== null && route.day < forecast.length) {
+        this.dayDetail.open(forecast, route.day);
+      } else {
+        this.dayDetail.close();
+      }
+    } finally {
+      this.applyingRoute = false;
+    }
+  }
+
+  /**
+   * Writes the current location, unit and open day to the URL.
+   */
+  private syncUrl(mode: 'push' | 'replace'): void {
+    if (this.applyingRoute) return;
+
+    const route: RouteState = {
+      location: this.state.currentLocation,
+      query: null,
+      unit: this.state.units.temperature,
+      day: this.dayDetail.getSelectedIndex(),
+    };
+
+    if (mode === 'push') {
+      this.router.push(route);
+    } else {
+      this.router.replace(route);
+    }
   }
 
   private setupStateSubscription(): void {
-    this.unsubscribeState = this.state.subscribe((_state) => {
-      this.state.saveToStorage();
+    this.unsubscribeState = this.state.subscribe((state) => {
+      // Time travel is for debugging; saving it would also push it to other tabs
+      if (!state.isTimeTravelling()) {
+        this.schedulePersist();
+      }
+    });
+
+    // Components re-render themselves; keep the settings form and URL in step
+    this.unsubscribeUnits = this.state.select(
+      (s) => s.units,
+      (units) => {
+        this.unitSettings.setUnits(units);
+        this.syncUrl('replace');
+      },
+      areUnitPreferencesEqual
+    );
+
+    this.unsubscribeCache = this.weatherService.subscribe(this.handleRevalidated.bind(this));
+
+    this.unsubscribeRouter = this.router.subscribe((route) => {
+      this.applyRoute(route);
     });
+
+    this.unwatchPreferences = watchPreferences(this.handleStoredPreferences.bind(this));
+  }
+
+  /**
+   * Applies data that arrived from a background revalidation of a stale cache entry.
+   */
+  private handleRevalidated(event: RevalidatedEvent): void {
+    const query = normalizeQuery(event.query);
+
+    // Favorites with rules load shorter forecasts of the same place; only the
+    // length the main view asked for may replace it
+    if (event.type === 'forecast' && event.days === this.state.forecastDays) {
+      const { currentLocation } = this.state;
+      if (currentLocation && normalizeQuery(getLocationQuery(currentLocation)) === query) {
+        const data = withLocationIdentity(event.data, currentLocation);
+        this.state.setWeatherData(data);
+        this.renderWeather(data);
+        this.checkNotificationRules();
+        return;
+      }
+    }
+
+    const favorite = this.state.favorites.find((fav) => normalizeQuery(getLocationQuery(fav)) === query);
+    if (favorite) {
+      const key = getLocationKey(favorite);
+      // Keep the forecast a rule needs rather than replacing it with current conditions only
+      if (event.type === 'current' && this.getFavoriteRuleDays().has(key)) return;
+
+      this.favoriteWeather.set(key, event.data);
+      this.renderFavorites();
+      this.checkNotificationRules();
+    }
   }
 
   private setupBrowserEvents(): void {
     window.addEventListener('online', this.boundOnlineHandler);
     window.addEventListener('offline', this.boundOfflineHandler);
+    // Write pending preferences before the page is unloaded or frozen
+    window.addEventListener('pagehide', this.boundPageHideHandler);
+  }
+
+  /**
+   * Saves preferences once changes have settled, so a burst of state
+   * updates results in a single write.
+   */
+  private schedulePersist(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  /**
+   * Saves immediately if a save is pending.
+   */
+  private flushPersist(): void {
+    if (!this.persistTimer) return;
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    this.persist();
+  }
+
+  private persist(): void {
+    try {
+      this.state.saveToStorage();
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      this.showStatus(t('app.storageFull'));
+    }
+  }
+
+  /**
+   * Applies preferences another tab saved. A new language or forecast
+   * length changes what is fetched, so the weather is reloaded for those.
+   */
+  private handleStoredPreferences(preferences: Partial<PersistedPreferences>): void {
+    const { locale, forecastDays } = this.state;
+    if (!this.state.syncFromStorage(preferences)) return;
+
+    this.syncFromState();
+
+    const localeChanged = this.state.locale !== locale;
+    if (localeChanged) {
+      this.historyLocationKey = null;
+    }
+    if ((localeChanged || this.state.forecastDays !== forecastDays) && this.state.currentLocation) {
+      this.loadWeatherForLocation(this.state.currentLocation);
+    }
+    this.refreshFavorites(localeChanged);
+  }
+
+  /**
+   * Exposes the state's action log and time travel on
+   * `window.__weatherDevtools` for debugging in the browser console.
+   */
+  private exposeDevtools(): void {
+    const devtools: StateDevtools = {
+      history: () => this.state.getHistory(),
+      position: () => this.state.getHistoryIndex(),
+      undo: () => this.timeTravel(() => this.state.undo()),
+      redo: () => this.timeTravel(() => this.state.redo()),
+      jumpTo: (index) => this.timeTravel(() => this.state.jumpTo(index)),
+    };
+    window.__weatherDevtools = devtools;
+  }
+
+  /**
+   * Moves through the action log and re-applies the restored state to the UI.
+   */
+  private timeTravel(move: () => boolean): boolean {
+    // Save the latest real change before the restored state replaces it
+    this.flushPersist();
+    if (!move()) return false;
+    this.syncFromState();
+    return true;
+  }
+
+  /**
+   * Re-applies the whole state to the UI after time travel or a sync from
+   * another tab, either of which can change any number of slices at once.
+   * Unit changes reach components through their own subscriptions.
+   */
+  private syncFromState(): void {
+    this.applyLocale();
+    this.locationSearch.refreshLabels();
+    const titleEl = document.querySelector('.app__title');
+    if (titleEl) {
+      titleEl.textContent = t('app.title');
+    }
+
+    this.themeManager.setTheme(this.state.theme);
+    this.unitSettings.setLocale(this.state.locale);
+    this.unitSettings.setAppearance(this.state.theme, this.state.ambientBackground);
+    this.weatherForecast.setDayCount(this.state.forecastDays, this.weatherService.getMaxForecastDays());
+    this.locationSearch.setRecentSearches(this.state.recentSearches);
+    this.notificationCenter.render();
+    this.notificationRules.render();
+    this.syncFavorites();
+    if (this.state.weatherData) {
+      this.renderWeather(this.state.weatherData);
+    }
+    this.syncUrl('replace');
+  }
+
+  /**
+   * Asks for permission to show browser notifications. Must run from a user gesture.
+   */
+  private async enableBrowserNotifications(): Promise<void> {
+    const permission = await requestNotificationPermission();
+    this.notificationCenter.setPermission(permission);
+  }
+
+  /**
+   * Forecast days needed by the enabled rules, for each favorite that at
+   * least one of them refers to.
+   * @returns The days to fetch, keyed by location key
+   */
+  private getFavoriteRuleDays(): Map<string, number> {
+    const days = new Map<string, number>();
+    for (const rule of this.state.notificationRules) {
+      if (!rule.enabled || !rule.location) continue;
+      const key = getLocationKey(rule.location);
+      days.set(key, Math.max(days.get(key) ?? 0, getRuleForecastDays(rule)));
+    }
+    return days;
+  }
+
+  /**
+   * Whether a favorite's loaded weather is too short for its rules. Failed
+   * loads are left to the next forced refresh.
+   */
+  private lacksRuleForecast(key: string, days: number | undefined): boolean {
+    const data = this.favoriteWeather.get(key);
+    if (!days || !data) return false;
+    return data.forecast.length < Math.min(days, this.weatherService.getMaxForecastDays());
+  }
+
+  /**
+   * Checks the enabled rules against the latest weather for their location
+   * and notifies about each match, through the browser if allowed and the
+   * in-app centre otherwise. A rule that fired stays quiet for its cooldown.
+   */
+  private checkNotificationRules(): void {
+    const now = Date.now();
+    const { currentLocation, weatherData } = this.state;
+
+    for (const rule of this.state.notificationRules) {
+      if (!rule.enabled || isRuleCoolingDown(rule, now)) continue;
+
+      const location = rule.location ?? currentLocation;
+      const data =
+        !rule.location || (currentLocation && isSameLocation(rule.location, currentLocation))
+          ? weatherData
+          : this.favoriteWeather.get(getLocationKey(rule.location));
+      if (!location || !data) continue;
+
+      const match = evaluateRule(rule, data, now);
+      if (!match) continue;
+
+      this.state.markNotificationRuleTriggered(rule.id, now);
+      const title = t('notifications.title', { location: location.name });
+      const body = t('notifications.triggered', {
+        summary: describeRule(rule, this.state.units),
+        value: formatMetricValue(rule.metric, match.value, this.state.units),
+      });
+      if (!showSystemNotification(title, body, rule.id)) {
+        this.notificationCenter.add(title, body);
+      }
+    }
   }
 
   private handleOnline(): void {
@@ -173,10 +957,54 @@ export class App {
     if (this.state.currentLocation) {
       this.loadWeatherForLocation(this.state.currentLocation);
     }
+    this.refreshFavorites(true);
   }
 
   private handleOffline(): void {
-    this.showStatus('You are offline. Weather data may be outdated.');
+    this.showStatus(t('app.offline'));
+  }
+
+  private async suggestAlternatives(error: NotFoundError): Promise<void> {
+    try {
+      const results = await this.weatherService.searchLocations(error.query);
+      error.suggestions = results.slice(0, MAX_NOT_FOUND_SUGGESTIONS);
+    } catch {
+      return;
+    }
+
+    // Only update the view if this error is still the one on screen
+    if (error.suggestions.length > 0 && this.state.error === error.message) {
+      this.currentWeather.showError(error);
+    }
+  }
+
+  /**
+   * Stores the data as the last-known weather for the location so an
+   * offline reload can still render it.
+   */
+  private persistSnapshot(location: LocationSuggestion, data: WeatherData): void {
+    saveWeatherSnapshot(getLocationKey(location), data);
+  }
+
+  /**
+   * Renders the last-known weather for a location after a failed fetch,
+   * labelled with when it was retrieved.
+   * @returns Whether a snapshot was found and rendered
+   */
+  private async restoreSnapshot(location: LocationSuggestion, signal: AbortSignal): Promise<boolean> {
+    const snapshot = await loadWeatherSnapshot(getLocationKey(location));
+    if (!snapshot) return false;
+
+    // A newer load may have started while IndexedDB was read
+    if (signal.aborted) return true;
+
+    this.state.setWeatherData(snapshot.data);
+    this.state.setLoading(false);
+    this.renderWeather(snapshot.data);
+
+    const time = formatDate(new Date(snapshot.savedAt), { hour: '2-digit', minute: '2-digit' });
+    this.showStatus(t(navigator.onLine ? 'app.staleError' : 'app.staleOffline', { time }));
+    return true;
   }
 
   private showStatus(message: string): void {
@@ -199,16 +1027,44 @@ export class App {
       if (this.state.currentLocation && !this.state.isLoading) {
         this.loadWeatherForLocation(this.state.currentLocation);
       }
+      this.refreshFavorites(true);
     }, REFRESH_INTERVAL_MS);
   }
 
+  /**
+   * Points message lookup, number and date formatting, and provider
+   * requests at the preferred locale.
+   */
+  private applyLocale(): void {
+    const { locale } = this.state;
+    setCurrentLocale(locale);
+    document.documentElement.lang = locale;
+    this.weatherService.setLanguage(locale);
+  }
+
+  /**
+   * Aborts the in-flight location load, if any, and returns the signal
+   * for the load that is about to start.
+   */
+  private beginLoad(): AbortSignal {
+    this.loadController?.abort();
+    this.loadController = new AbortController();
+    return this.loadController.signal;
+  }
+
   private async loadWeatherForCity(city: string): Promise<void> {
+    const signal = this.beginLoad();
+    this.retryLastLoad = () => this.loadWeatherForCity(city);
     this.state.setLoading(true);
     this.currentWeather.showLoading();
+    this.hourlyForecast.showLoading();
     this.weatherForecast.showLoading();
+    this.forecastChart.showLoading();
+    this.currentWeather.setComparison(null);
 
     try {
-      const data = await this.weatherService.getForecast(city, 5);
+      const data = await this.weatherService.getForecast(city, this.state.forecastDays, signal);
+      if (signal.aborted) return;
 
       const location: LocationSuggestion = {
         name: data.location.name,
@@ -221,12 +1077,61 @@ export class App {
       this.state.setLocation(location);
       this.state.setWeatherData(data);
       this.state.setLoading(false);
-      this.state.saveToStorage();
 
-      this.currentWeather.render(data);
-      this.weatherForecast.render(data.forecast, this.state.temperatureUnit);
+      this.renderWeather(data);
+      this.persistSnapshot(location, data);
+      this.prepareHistory(location, data, signal);
+      this.checkNotificationRules();
     } catch (error) {
+      if (signal.aborted) return;
       this.handleError(error instanceof Error ? error : new Error(String(error)));
     }
   }
+
+  /**
+   * Resets the history view when a different location was loaded, keeping
+   * results across refreshes, and fetches the same day last year for the
+   * comparison strip. Providers without that much history simply leave the
+   * strip hidden.
+   */
+  private async prepareHistory(location: LocationSuggestion, data: WeatherData, signal: AbortSignal): Promise<void> {
+    const today = data.forecast[0];
+    if (!today) return;
+
+    const key = getLocationKey(location);
+    if (key !== this.historyLocationKey) {
+      this.historyLocationKey = key;
+      this.historyController?.abort();
+      this.historyView.reset(addDays(today.date, -1));
+    }
+
+    try {
+      const lastYear = await this.weatherService.getHistory(
+        getLocationQuery(location),
+        addYears(today.date, -1),
+        signal
+      );
+      if (signal.aborted) return;
+      this.currentWeather.setComparison(lastYear.day);
+    } catch {
+      // The comparison is optional
+    }
+  }
+}
+
+/**
+ * Labels weather fetched by coordinates with the selected location's name and
+ * position, since the provider may report the nearest station or grid point.
+ */
+function withLocationIdentity(data: WeatherData, location: LocationSuggestion): WeatherData {
+  return {
+    ...data,
+    location: {
+      ...data.location,
+      name: location.name,
+      country: location.country,
+      lat: location.lat,
+      lon: location.lon,
+    },
+  };
 }
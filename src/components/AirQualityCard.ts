@@ -0,0 +1,110 @@
+import type { AirQuality } from '../types/weather';
+import { formatNumber, t } from '../i18n';
+
+// US EPA bands 1–6, named by their modifier class and message keys
+const EPA_CATEGORIES = ['good', 'moderate', 'sensitive', 'unhealthy', 'very-unhealthy', 'hazardous'] as const;
+
+const POLLUTANTS: Array<{ key: keyof AirQuality; label: string }> = [
+  { key: 'pm2_5', label: 'PM2.5' },
+  { key: 'pm10', label: 'PM10' },
+  { key: 'o3', label: 'O₃' },
+  { key: 'no2', label: 'NO₂' },
+  { key: 'so2', label: 'SO₂' },
+  { key: 'co', label: 'CO' },
+];
+
+/**
+ * Card showing the air quality index as a colour-banded gauge,
+ * health guidance for the current band and a pollutant breakdown.
+ */
+export class AirQualityCard {
+  private container: HTMLElement;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  /**
+   * Renders the air quality data, or clears the card when none is available.
+   * @param airQuality - Air quality for the current location, or null
+   */
+  render(airQuality: AirQuality | null): void {
+    if (!airQuality || !Number.isFinite(airQuality.usEpaIndex)) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    const index = Math.min(Math.max(Math.round(airQuality.usEpaIndex), 1), EPA_CATEGORIES.length);
+    const category = EPA_CATEGORIES[index - 1];
+    const label = t(`airQuality.category.${category}`);
+
+    const segments = EPA_CATEGORIES.map(
+      (band, i) => `
+        <span
+          class="air-quality__segment air-quality__segment--${band}${i === index - 1 ? ' air-quality__segment--active' : ''}"
+          title="${t(`airQuality.category.${band}`)}"
+        ></span>
+      `
+    ).join('');
+
+    const pollutants = POLLUTANTS.map(
+      ({ key, label }) => `
+        <div class="air-quality__pollutant">
+          <dt class="air-quality__pollutant-label">${label}</dt>
+          <dd class="air-quality__pollutant-value">${this.formatConcentration(airQuality[key])}</dd>
+        </div>
+      `
+    ).join('');
+
+    this.container.innerHTML = `
+      <section class="air-quality air-quality--${category}" aria-labelledby="air-quality-title">
+        <div class="air-quality__header">
+          <h3 class="air-quality__title" id="air-quality-title">${t('airQuality.title')}</h3>
+          <span class="air-quality__category">${label}</span>
+        </div>
+        <div
+          class="air-quality__gauge"
+          role="meter"
+          aria-valuemin="1"
+          aria-valuemax="${EPA_CATEGORIES.length}"
+          aria-valuenow="${index}"
+          aria-valuetext="${t('airQuality.epaValue', { index, category: label })}"
+        >
+          ${segments}
+        </div>
+        <p class="air-quality__guidance">${t(`airQuality.guidance.${category}`)}</p>
+        <p class="air-quality__indices">
+          ${t('airQuality.indices', {
+            epa: `<strong>${formatNumber(index)}</strong>`,
+            defra: `<strong>${formatNumber(Math.round(airQuality.gbDefraIndex))}</strong>`,
+            band: this.defraBand(airQuality.gbDefraIndex),
+          })}
+        </p>
+        <dl class="air-quality__pollutants">
+          ${pollutants}
+        </dl>
+        <p class="air-quality__footnote">${t('airQuality.footnote')}</p>
+      </section>
+    `;
+  }
+
+  /**
+   * Removes the card from the container.
+   */
+  clear(): void {
+    this.container.innerHTML = '';
+  }
+
+  private defraBand(index: number): string {
+    if (index <= 3) return t('airQuality.defraBand.low');
+    if (index <= 6) return t('airQuality.defraBand.moderate');
+    if (index <= 9) return t('airQuality.defraBand.high');
+    return t('airQuality.defraBand.veryHigh');
+  }
+
+  private formatConcentration(value: number): string {
+    if (!Number.isFinite(value)) return '—';
+    const digits = value >= 100 ? 0 : 1;
+    return formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  }
+}
@@ -0,0 +1,110 @@
+import type { WeatherAlert, AlertSeverity } from '../types/weather';
+import { formatDate, t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = {
+  extreme: 0,
+  severe: 1,
+  moderate: 2,
+  minor: 3,
+  unknown: 4,
+};
+
+/**
+ * Banner listing active severe weather alerts, most severe first.
+ * Each alert can be expanded for details and dismissed individually.
+ */
+export class AlertBanner extends EventTarget {
+  private container: HTMLElement;
+  private alerts: WeatherAlert[] = [];
+
+  constructor(container: HTMLElement) {
+    super();
+    this.container = container;
+  }
+
+  /**
+   * Renders the given alerts, or clears the banner when there are none.
+   * @param alerts - Alerts to display (already filtered of dismissed ones)
+   */
+  render(alerts: WeatherAlert[]): void {
+    this.alerts = [...alerts].sort(
+      (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+    );
+
+    if (this.alerts.length === 0) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    const items = this.alerts
+      .map((alert, index) => this.renderAlert(alert, index))
+      .join('');
+
+    this.container.innerHTML = `
+      <section class="alert-banner" aria-label="${t('alerts.label')}">
+        ${items}
+      </section>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  /**
+   * Removes any rendered alerts.
+   */
+  clear(): void {
+    this.alerts = [];
+    this.container.innerHTML = '';
+  }
+
+  private renderAlert(alert: WeatherAlert, index: number): string {
+    const role = alert.severity === 'extreme' || alert.severity === 'severe' ? 'alert' : 'status';
+    const validity = this.formatValidity(alert);
+
+    return `
+      <article class="alert-banner__item alert-banner__item--${alert.severity}" role="${role}">
+        <div class="alert-banner__header">
+          <span class="alert-banner__severity">${t(`alerts.severity.${alert.severity}`)}</span>
+          <h3 class="alert-banner__event">${escapeHtml(alert.event || alert.headline)}</h3>
+          <button class="alert-banner__dismiss" data-index="${index}" type="button" aria-label="${t('alerts.dismiss', { event: escapeHtml(alert.event) })}">&times;</button>
+        </div>
+        ${alert.area ? `<p class="alert-banner__area">${escapeHtml(alert.area)}</p>` : ''}
+        ${validity ? `<p class="alert-banner__validity">${validity}</p>` : ''}
+        <details class="alert-banner__details">
+          <summary>${t('alerts.details')}</summary>
+          <p class="alert-banner__description">${escapeHtml(alert.description)}</p>
+          ${alert.instruction ? `<p class="alert-banner__instruction">${escapeHtml(alert.instruction)}</p>` : ''}
+        </details>
+      </article>
+    `;
+  }
+
+  private formatValidity(alert: WeatherAlert): string {
+    const options: Intl.DateTimeFormatOptions = {
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    };
+    const effective = new Date(alert.effective);
+    const expires = new Date(alert.expires);
+
+    if (Number.isNaN(expires.getTime())) return '';
+    if (Number.isNaN(effective.getTime())) {
+      return t('alerts.until', { time: formatDate(expires, options) });
+    }
+    return `${formatDate(effective, options)} – ${formatDate(expires, options)}`;
+  }
+
+  private attachEventListeners(): void {
+    this.container.querySelectorAll('.alert-banner__dismiss').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
+        const alert = this.alerts[index];
+        this.dispatchEvent(
+          new CustomEvent('alertDismissed', { detail: { alert } })
+        );
+      });
+    });
+  }
+}
@@ -1,53 +1,96 @@
-import type { WeatherData } from '../types/weather.ts';
+import type { DayForecast, WeatherData } from '../types/weather.ts';
+import { AuthError, NotFoundError, RateLimitError, WeatherServiceError } from '../services/errors';
+import type { AppState } from '../state/AppState';
+import { formatDate, formatNumber, formatPercent, t } from '../i18n';
+import { isValidTimeZone } from '../utils/date';
+import { escapeHtml } from '../utils/html';
+import {
+  areUnitPreferencesEqual,
+  convertTemperature,
+  convertTemperatureDifference,
+  formatTemperature,
+  formatWindSpeed,
+  formatPressure,
+  formatDistance,
+} from '../utils/units';
 
-export class CurrentWeather {
+/**
+ * Panel showing the current conditions at the selected location. Measurements
+ * follow the unit preferences in AppState and re-render when they change; the
+ * unit toggle only emits 'unitToggled' for the owner to update the state.
+ */
+export class CurrentWeather extends EventTarget {
   private container: HTMLElement;
-  private unit: 'C' | 'F' = 'C';
+  private state: AppState;
+  private unsubscribeUnits: () => void;
   private currentData: WeatherData | null = null;
+  private favorite = false;
+  private lastYear: DayForecast | null = null;
+  private clockTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, state: AppState) {
+    super();
     this.container = container;
+    this.state = state;
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => {
+        if (this.currentData) {
+          this.render(this.currentData);
+        }
+      },
+      areUnitPreferencesEqual
+    );
   }
 
   render(data: WeatherData): void {
     this.currentData = data;
+    const { units } = this.state;
     const { location, current } = data;
-    const temp = this.formatTemp(current.temperature);
+    const temp = formatNumber(Math.round(convertTemperature(current.temperature, units.temperature)) || 0);
 
     this.container.innerHTML = `
       <div class="current-weather">
         <div class="current-weather__header">
-          <h2 class="current-weather__location">${this.escape(location.name)}, ${this.escape(location.country)}</h2>
+          <h2 class="current-weather__location">${escapeHtml(location.name)}, ${escapeHtml(location.country)}</h2>
+          <button
+            class="current-weather__favorite${this.favorite ? ' current-weather__favorite--active' : ''}"
+            type="button"
+            aria-pressed="${this.favorite}"
+            aria-label="${escapeHtml(t('common.saveFavorite', { name: location.name }))}"
+          >${this.favorite ? '&#9733;' : '&#9734;'}</button>
         </div>
+        <p class="current-weather__local-time" hidden></p>
         <div class="current-weather__main">
           <div class="current-weather__primary">
-            <img class="current-weather__icon" src="${this.escape(current.icon)}" alt="${this.escape(current.condition)}" />
+            <img class="current-weather__icon" src="${escapeHtml(current.icon)}" alt="${escapeHtml(current.condition)}" />
             <span class="current-weather__temp">${temp}</span>
-            <button class="current-weather__unit-toggle" aria-label="Toggle temperature unit">&deg;${this.unit}</button>
+            <button class="current-weather__unit-toggle" aria-label="${t('current.toggleUnit')}">&deg;${units.temperature}</button>
           </div>
-          <p class="current-weather__condition">${this.escape(current.condition)}</p>
-          <p class="current-weather__description">${this.escape(current.description)}</p>
+          <p class="current-weather__condition">${escapeHtml(current.condition)}</p>
+          <p class="current-weather__description">${escapeHtml(current.description)}</p>
         </div>
+        <p class="current-weather__comparison" hidden></p>
         <div class="current-weather__metrics">
           <div class="current-weather__metric">
-            <span class="current-weather__metric-label">Humidity</span>
-            <span class="current-weather__metric-value">${current.humidity}%</span>
+            <span class="current-weather__metric-label">${t('current.humidity')}</span>
+            <span class="current-weather__metric-value">${formatPercent(current.humidity)}</span>
           </div>
           <div class="current-weather__metric">
-            <span class="current-weather__metric-label">Wind</span>
-            <span class="current-weather__metric-value">${current.windSpeed} km/h</span>
+            <span class="current-weather__metric-label">${t('current.wind')}</span>
+            <span class="current-weather__metric-value">${formatWindSpeed(current.windSpeed, units)}</span>
           </div>
           <div class="current-weather__metric">
-            <span class="current-weather__metric-label">Pressure</span>
-            <span class="current-weather__metric-value">${current.pressure} hPa</span>
+            <span class="current-weather__metric-label">${t('current.pressure')}</span>
+            <span class="current-weather__metric-value">${formatPressure(current.pressure, units)}</span>
           </div>
           <div class="current-weather__metric">
-            <span class="current-weather__metric-label">Visibility</span>
-            <span class="current-weather__metric-value">${current.visibility} km</span>
+            <span class="current-weather__metric-label">${t('current.visibility')}</span>
+            <span class="current-weather__metric-value">${formatDistance(current.visibility, units)}</span>
           </div>
           <div class="current-weather__metric">
-            <span class="current-weather__metric-label">UV Index</span>
-            <span class="current-weather__metric-value">${current.uvIndex}</span>
+            <span class="current-weather__metric-label">${t('current.uvIndex')}</span>
+            <span class="current-weather__metric-value">${formatNumber(current.uvIndex)}</span>
           </div>
         </div>
       </div>
@@ -56,11 +99,46 @@ export class CurrentWeather {
     this.container
       .querySelector('.current-weather__unit-toggle')
       ?.addEventListener('click', () => {
-        this.toggleTemperatureUnit();
+        this.dispatchEvent(new CustomEvent('unitToggled'));
       });
+
+    this.container
+      .querySelector('.current-weather__favorite')
+      ?.addEventListener('click', () => {
+        this.dispatchEvent(new CustomEvent('favoriteToggled'));
+      });
+
+    this.renderComparison();
+    this.startClock(location.tzId);
+  }
+
+  /**
+   * Sets the observed weather on this date last year, shown as a strip
+   * comparing it with today's high. Pass null to hide the strip.
+   * @param lastYear - Last year's observations for today's date
+   */
+  setComparison(lastYear: DayForecast | null): void {
+    this.lastYear = lastYear;
+    this.renderComparison();
+  }
+
+  /**
+   * Updates the favorite star without re-rendering the panel.
+   * @param favorite - Whether the displayed location is a favorite
+   */
+  setFavorite(favorite: boolean): void {
+    this.favorite = favorite;
+    const btn = this.container.querySelector('.current-weather__favorite');
+    if (btn) {
+      btn.classList.toggle('current-weather__favorite--active', favorite);
+      btn.setAttribute('aria-pressed', String(favorite));
+      btn.innerHTML = favorite ? '&#9733;' : '&#9734;';
+    }
   }
 
   showLoading(): void {
+    this.currentData = null;
+    this.stopClock();
     this.container.innerHTML = `
       <div class="current-weather current-weather--loading">
         <div class="current-weather__header">
@@ -81,38 +159,152 @@ export class CurrentWeather {
     `;
   }
 
-  showError(message: string): void {
+  /**
+   * Shows an error view tailored to the error type: an API key hint for
+   * authentication failures, "did you mean" suggestions for unknown
+   * locations, and a Retry button for everything that may succeed later.
+   */
+  showError(error: Error): void {
+    this.currentData = null;
+    this.stopClock();
     this.container.innerHTML = `
       <div class="current-weather current-weather--error">
-        <div class="current-weather__error">
+        <div class="current-weather__error" role="alert">
           <span class="current-weather__error-icon">&#9888;</span>
-          <p class="current-weather__error-message">${this.escape(message)}</p>
+          <p class="current-weather__error-message">${escapeHtml(error.message)}</p>
+          ${this.renderErrorAction(error)}
         </div>
       </div>
     `;
+
+    this.container
+      .querySelector('.current-weather__retry')
+      ?.addEventListener('click', () => {
+        this.dispatchEvent(new CustomEvent('retry'));
+      });
+
+    this.container.querySelectorAll<HTMLElement>('.current-weather__suggestion').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const index = parseInt(btn.dataset.index!, 10);
+        const location = (error as NotFoundError).suggestions[index];
+        this.dispatchEvent(
+          new CustomEvent('suggestionSelected', { detail: { location } })
+        );
+      });
+    });
   }
 
-  toggleTemperatureUnit(): void {
-    this.unit = this.unit === 'C' ? 'F' : 'C';
-    if (this.currentData) {
-      this.render(this.currentData);
-    }
+  /**
+   * Stops the local clock and unit updates.
+   */
+  destroy(): void {
+    this.stopClock();
+    this.unsubscribeUnits();
   }
 
-  getCurrentUnit(): 'C' | 'F' {
-    return this.unit;
+  /**
+   * Shows the current time at the location and keeps it ticking, updating
+   * at each minute boundary. Stays hidden for an unknown time zone rather
+   * than showing the viewer's own time.
+   */
+  private startClock(timeZone: string): void {
+    this.stopClock();
+    const clock = this.container.querySelector<HTMLElement>('.current-weather__local-time');
+    if (!clock || !isValidTimeZone(timeZone)) return;
+
+    const tick = () => {
+      const time = formatDate(new Date(), { weekday: 'short', hour: '2-digit', minute: '2-digit', timeZone });
+      clock.textContent = t('current.localTime', { time });
+      clock.hidden = false;
+      this.clockTimer = setTimeout(tick, 60_000 - (Date.now() % 60_000));
+    };
+    tick();
   }
 
-  private formatTemp(celsius: number): string {
-    if (this.unit === 'F') {
-      return `${Math.round(celsius * 9 / 5 + 32)}`;
+  private stopClock(): void {
+    if (this.clockTimer) {
+      clearTimeout(this.clockTimer);
+      this.clockTimer = null;
     }
-    return `${Math.round(celsius)}`;
   }
 
-  private escape(str: string): string {
-    const el = document.createElement('span');
-    el.textContent = str;
-    return el.innerHTML;
+  private renderErrorAction(error: Error): string {
+    if (error instanceof AuthError) {
+      return `
+        <p class="current-weather__error-hint">
+          ${t('current.apiKeyHint', { variable: '<code>VITE_WEATHER_API_KEY</code>', file: '<code>.env</code>' })}
+        </p>
+      `;
+    }
+
+    if (error instanceof NotFoundError) {
+      if (error.suggestions.length === 0) {
+        return `<p class="current-weather__error-hint">${t('current.notFoundHint')}</p>`;
+      }
+
+      const suggestions = error.suggestions
+        .map(
+          (location, index) => `
+          <li>
+            <button class="current-weather__suggestion" data-index="${index}" type="button">
+              ${escapeHtml(location.name)}${location.region ? `, ${escapeHtml(location.region)}` : ''}, ${escapeHtml(location.country)}
+            </button>
+          </li>
+        `
+        )
+        .join('');
+
+      return `
+        <p class="current-weather__error-hint">${t('current.didYouMean')}</p>
+        <ul class="current-weather__suggestions">${suggestions}</ul>
+      `;
+    }
+
+    const retryable = !(error instanceof WeatherServiceError) || error.retryable;
+    if (!retryable) {
+      return error instanceof RateLimitError
+        ? `<p class="current-weather__error-hint">${t('current.quotaHint')}</p>`
+        : '';
+    }
+
+    const waitHint =
+      error instanceof WeatherServiceError && error.retryAfterMs
+        ? `<p class="current-weather__error-hint">${t('current.retryAfter', { count: Math.ceil(error.retryAfterMs / 1000) })}</p>`
+        : '';
+
+    return `
+      ${waitHint}
+      <button class="current-weather__retry" type="button">${t('current.retry')}</button>
+    `;
+  }
+
+  private renderComparison(): void {
+    const strip = this.container.querySelector<HTMLElement>('.current-weather__comparison');
+    const today = this.currentData?.forecast[0];
+    if (!strip) return;
+
+    if (!this.lastYear || !today) {
+      strip.hidden = true;
+      return;
+    }
+
+    const { units } = this.state;
+    const difference = Math.round(
+      convertTemperatureDifference(today.maxTemp - this.lastYear.maxTemp, units.temperature)
+    );
+    const lastYearHigh = formatTemperature(this.lastYear.maxTemp, units);
+    const summary =
+      difference === 0
+        ? t('current.sameAsLastYear')
+        : t(difference > 0 ? 'current.warmerThanLastYear' : 'current.colderThanLastYear', {
+            difference: Math.abs(difference),
+          });
+
+    strip.textContent = t('current.lastYearDetail', {
+      summary,
+      high: lastYearHigh,
+      condition: this.lastYear.condition,
+    });
+    strip.hidden = false;
   }
 }
@@ -0,0 +1,265 @@
+import type { DayForecast, HourForecast } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import { areUnitPreferencesEqual, formatTemperature, formatPrecipitation } from '../utils/units';
+import { formatCalendarDate, formatNumber, formatPercent, t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+const FOCUSABLE_SELECTOR = 'button:not([disabled]), [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Modal panel showing the full breakdown of a single forecast day:
+ * hourly conditions, astronomy, precipitation and UV. Supports arrow-key
+ * navigation between days and closes on Escape or the close button.
+ * While open, Tab cycles through the panel's controls only.
+ */
+export class DayDetail extends EventTarget {
+  private container: HTMLElement;
+  private forecast: DayForecast[] = [];
+  private index = -1;
+  private state: AppState;
+  private returnFocusEl: HTMLElement | null = null;
+  private boundHandleKeydown: (e: KeyboardEvent) => void;
+  private unsubscribeUnits: () => void;
+
+  constructor(container: HTMLElement, state: AppState) {
+    super();
+    this.container = container;
+    this.state = state;
+    this.boundHandleKeydown = this.handleKeydown.bind(this);
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => this.update(this.forecast),
+      areUnitPreferencesEqual
+    );
+  }
+
+  /**
+   * Opens the panel for the given day.
+   * @param forecast - All forecast days, used for previous/next navigation
+   * @param index - Index of the day to show
+   */
+  open(forecast: DayForecast[], index: number): void {
+    if (!this.isOpen()) {
+      this.returnFocusEl = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+      document.addEventListener('keydown', this.boundHandleKeydown);
+    }
+
+    this.forecast = forecast;
+    this.index = Math.max(0, Math.min(index, forecast.length - 1));
+    this.render();
+
+    this.container.querySelector<HTMLElement>('.day-detail__close')?.focus();
+  }
+
+  /**
+   * Re-renders the open panel with refreshed data, e.g. after an auto-refresh.
+   * Does nothing when the panel is closed.
+   */
+  update(forecast: DayForecast[]): void {
+    if (!this.isOpen()) return;
+
+    if (forecast.length === 0) {
+      this.close();
+      return;
+    }
+
+    // Re-rendering replaces the focused control; keep focus inside the dialog
+    const hadFocus = this.container.contains(document.activeElement);
+    this.forecast = forecast;
+    this.index = Math.min(this.index, forecast.length - 1);
+    this.render();
+    if (hadFocus) {
+      this.container.querySelector<HTMLElement>('.day-detail__close')?.focus();
+    }
+  }
+
+  /**
+   * Closes the panel and restores focus to the element that opened it.
+   */
+  close(): void {
+    if (!this.isOpen()) return;
+
+    this.index = -1;
+    this.container.innerHTML = '';
+    document.removeEventListener('keydown', this.boundHandleKeydown);
+
+    this.returnFocusEl?.focus();
+    this.returnFocusEl = null;
+
+    this.dispatchEvent(new CustomEvent('closed'));
+  }
+
+  isOpen(): boolean {
+    return this.index >= 0;
+  }
+
+  /**
+   * Index of the day currently shown, or null when the panel is closed.
+   */
+  getSelectedIndex(): number | null {
+    return this.isOpen() ? this.index : null;
+  }
+
+  /**
+   * Cleans up event listeners, unit updates and DOM.
+   */
+  destroy(): void {
+    document.removeEventListener('keydown', this.boundHandleKeydown);
+    this.unsubscribeUnits();
+    this.container.innerHTML = '';
+    this.index = -1;
+  }
+
+  private render(): void {
+    const day = this.forecast[this.index];
+    const title = formatCalendarDate(day.date, { weekday: 'long', month: 'long', day: 'numeric' });
+    const hasPrev = this.index > 0;
+    const hasNext = this.index < this.forecast.length - 1;
+
+    this.container.innerHTML = `
+      <div class="day-detail__backdrop">
+        <section class="day-detail" role="dialog" aria-modal="true" aria-labelledby="day-detail-title">
+          <header class="day-detail__header">
+            <button class="day-detail__nav day-detail__nav--prev" type="button" aria-label="${t('dayDetail.previous')}" ${hasPrev ? '' : 'disabled'}>&lsaquo;</button>
+            <div class="day-detail__heading">
+              <h3 class="day-detail__title" id="day-detail-title">${title}</h3>
+              <p class="day-detail__summary">
+                ${escapeHtml(day.condition)} &middot;
+                ${formatTemperature(day.maxTemp, this.state.units)} / ${formatTemperature(day.minTemp, this.state.units)}
+              </p>
+            </div>
+            <button class="day-detail__nav day-detail__nav--next" type="button" aria-label="${t('dayDetail.next')}" ${hasNext ? '' : 'disabled'}>&rsaquo;</button>
+            <button class="day-detail__close" type="button" aria-label="${t('dayDetail.close')}">&times;</button>
+          </header>
+          <dl class="day-detail__stats">
+            ${this.renderStat(t('common.sunrise'), day.astro.sunrise ?? '—')}
+            ${this.renderStat(t('common.sunset'), day.astro.sunset ?? '—')}
+            ${this.renderStat(t('dayDetail.moonPhase'), escapeHtml(day.astro.moonPhase))}
+            ${this.renderStat(t('forecast.chanceOfRain'), formatPercent(day.chanceOfRain))}
+            ${this.renderStat(t('dayDetail.chanceOfSnow'), formatPercent(day.chanceOfSnow))}
+            ${this.renderStat(t('common.precipitation'), formatPrecipitation(day.totalPrecipitation, this.state.units))}
+            ${this.renderStat(t('dayDetail.maxUv'), formatNumber(Math.round(day.maxUvIndex)))}
+          </dl>
+          ${this.renderHours(day.hours)}
+        </section>
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  private renderStat(label: string, value: string): string {
+    return `
+      <div class="day-detail__stat">
+        <dt class="day-detail__stat-label">${label}</dt>
+        <dd class="day-detail__stat-value">${value}</dd>
+      </div>
+    `;
+  }
+
+  private renderHours(hours: HourForecast[]): string {
+    if (hours.length === 0) {
+      return `<p class="day-detail__empty">${t('dayDetail.hoursEmpty')}</p>`;
+    }
+
+    const rows = hours
+      .map(
+        (hour) => `
+        <li class="day-detail__hour">
+          <span class="day-detail__hour-time">${hour.time.slice(11, 16)}</span>
+          <img class="day-detail__hour-icon" src="${escapeHtml(hour.icon)}" alt="${escapeHtml(hour.condition)}" loading="lazy" />
+          <span class="day-detail__hour-temp">${formatTemperature(hour.temperature, this.state.units)}</span>
+          <span class="day-detail__hour-precip">${formatPercent(hour.chanceOfPrecipitation)}</span>
+        </li>
+      `
+      )
+      .join('');
+
+    return `
+      <h4 class="day-detail__section-title">${t('common.hourly')}</h4>
+      <ol class="day-detail__hours" tabindex="0" aria-label="${t('dayDetail.hoursLabel')}">
+        ${rows}
+      </ol>
+    `;
+  }
+
+  private attachEventListeners(): void {
+    this.container.querySelector('.day-detail__close')?.addEventListener('click', () => {
+      this.close();
+    });
+
+    this.container.querySelector('.day-detail__nav--prev')?.addEventListener('click', () => {
+      this.navigate(-1);
+    });
+
+    this.container.querySelector('.day-detail__nav--next')?.addEventListener('click', () => {
+      this.navigate(1);
+    });
+
+    this.container.querySelector('.day-detail__backdrop')?.addEventListener('click', (e) => {
+      if (e.target === e.currentTarget) {
+        this.close();
+      }
+    });
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    switch (e.key) {
+      case 'Tab':
+        this.trapFocus(e);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        this.close();
+        break;
+      case 'ArrowLeft':
+        e.preventDefault();
+        this.navigate(-1);
+        break;
+      case 'ArrowRight':
+        e.preventDefault();
+        this.navigate(1);
+        break;
+    }
+  }
+
+  /**
+   * Wraps Tab from the last focusable element to the first and Shift+Tab
+   * the other way, pulling focus back in if it has left the panel.
+   */
+  private trapFocus(e: KeyboardEvent): void {
+    const dialog = this.container.querySelector<HTMLElement>('.day-detail');
+    if (!dialog) return;
+
+    const focusable = Array.from(dialog.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    const active = document.activeElement;
+
+    if (!dialog.contains(active)) {
+      e.preventDefault();
+      (e.shiftKey ? last : first).focus();
+    } else if (e.shiftKey && active === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && active === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  }
+
+  private navigate(offset: number): void {
+    const next = this.index + offset;
+    if (next < 0 || next >= this.forecast.length) return;
+
+    this.index = next;
+    this.render();
+    this.container.querySelector<HTMLElement>('.day-detail__close')?.focus();
+
+    this.dispatchEvent(
+      new CustomEvent('daySelected', { detail: { day: this.forecast[next], index: next } })
+    );
+  }
+}
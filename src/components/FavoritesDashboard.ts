@@ -0,0 +1,188 @@
+import type { LocationSuggestion, WeatherData } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import { areUnitPreferencesEqual, formatTemperature } from '../utils/units';
+import { t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+export interface FavoriteEntry {
+  location: LocationSuggestion;
+  data: WeatherData | null;
+  status: 'loading' | 'ready' | 'error';
+}
+
+/**
+ * Compact dashboard of favorite locations with their current temperature
+ * and condition. Cards can be reordered by dragging or with the arrow keys
+ * on a card's handle.
+ */
+export class FavoritesDashboard extends EventTarget {
+  private container: HTMLElement;
+  private entries: FavoriteEntry[] = [];
+  private state: AppState;
+  private dragIndex: number | null = null;
+  private pendingFocusIndex: number | null = null;
+  private unsubscribeUnits: () => void;
+
+  constructor(container: HTMLElement, state: AppState) {
+    super();
+    this.container = container;
+    this.state = state;
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => this.render(this.entries),
+      areUnitPreferencesEqual
+    );
+  }
+
+  /**
+   * Renders the favorite cards, or clears the dashboard when there are none.
+   * Temperatures use the units currently selected in AppState.
+   * @param entries - Favorites with their latest weather, in display order
+   */
+  render(entries: FavoriteEntry[]): void {
+    this.entries = entries;
+
+    if (entries.length === 0) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    const cards = entries
+      .map((entry, index) => this.renderCard(entry, index))
+      .join('');
+
+    this.container.innerHTML = `
+      <section class="favorites" aria-labelledby="favorites-title">
+        <h3 class="favorites__title" id="favorites-title">${t('favorites.title')}</h3>
+        <ul class="favorites__list">
+          ${cards}
+        </ul>
+      </section>
+    `;
+
+    this.attachEventListeners();
+
+    if (this.pendingFocusIndex !== null) {
+      this.container
+        .querySelector<HTMLElement>(`.favorites__handle[data-index="${this.pendingFocusIndex}"]`)
+        ?.focus();
+      this.pendingFocusIndex = null;
+    }
+  }
+
+  /**
+   * Stops following unit changes.
+   */
+  destroy(): void {
+    this.unsubscribeUnits();
+  }
+
+  private renderCard(entry: FavoriteEntry, index: number): string {
+    const { location, data, status } = entry;
+    const name = escapeHtml(location.name);
+
+    let body: string;
+    if (status === 'ready' && data) {
+      body = `
+        <img class="favorites__icon" src="${escapeHtml(data.current.icon)}" alt="" loading="lazy" />
+        <span class="favorites__temp">${formatTemperature(data.current.temperature, this.state.units)}</span>
+        <span class="favorites__condition">${escapeHtml(data.current.condition)}</span>
+      `;
+    } else if (status === 'error') {
+      body = `<span class="favorites__condition favorites__condition--error">${t('favorites.unavailable')}</span>`;
+    } else {
+      body = `
+        <div class="skeleton skeleton--icon"></div>
+        <div class="skeleton skeleton--temp"></div>
+      `;
+    }
+
+    return `
+      <li class="favorites__card" draggable="true" data-index="${index}">
+        <button class="favorites__handle" data-index="${index}" type="button" aria-label="${t('favorites.reorder', { name })}">&#8942;&#8942;</button>
+        <button class="favorites__open" data-index="${index}" type="button">
+          <span class="favorites__name">${name}</span>
+          <span class="favorites__country">${escapeHtml(location.country)}</span>
+          ${body}
+        </button>
+        <button class="favorites__remove" data-index="${index}" type="button" aria-label="${t('favorites.remove', { name })}">&times;</button>
+      </li>
+    `;
+  }
+
+  private attachEventListeners(): void {
+    this.container.querySelectorAll<HTMLElement>('.favorites__open').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const entry = this.entries[this.indexOf(btn)];
+        this.dispatchEvent(
+          new CustomEvent('favoriteSelected', { detail: { location: entry.location } })
+        );
+      });
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.favorites__remove').forEach((btn) => {
+      btn.addEventListener('click', () => {
+        const entry = this.entries[this.indexOf(btn)];
+        this.dispatchEvent(
+          new CustomEvent('favoriteRemoved', { detail: { location: entry.location } })
+        );
+      });
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.favorites__handle').forEach((handle) => {
+      handle.addEventListener('keydown', (e) => {
+        const index = this.indexOf(handle);
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          this.emitReorder(index, index - 1);
+        } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+          e.preventDefault();
+          this.emitReorder(index, index + 1);
+        }
+      });
+    });
+
+    this.container.querySelectorAll<HTMLElement>('.favorites__card').forEach((card) => {
+      card.addEventListener('dragstart', (e) => {
+        this.dragIndex = this.indexOf(card);
+        card.classList.add('favorites__card--dragging');
+        e.dataTransfer?.setData('text/plain', String(this.dragIndex));
+        if (e.dataTransfer) {
+          e.dataTransfer.effectAllowed = 'move';
+        }
+      });
+
+      card.addEventListener('dragend', () => {
+        this.dragIndex = null;
+        card.classList.remove('favorites__card--dragging');
+      });
+
+      card.addEventListener('dragover', (e) => {
+        if (this.dragIndex !== null) {
+          e.preventDefault();
+        }
+      });
+
+      card.addEventListener('drop', (e) => {
+        e.preventDefault();
+        if (this.dragIndex !== null) {
+          this.emitReorder(this.dragIndex, this.indexOf(card));
+          this.dragIndex = null;
+        }
+      });
+    });
+  }
+
+  private emitReorder(from: number, to: number): void {
+    if (to < 0 || to >= this.entries.length || from === to) return;
+
+    this.pendingFocusIndex = to;
+    this.dispatchEvent(
+      new CustomEvent('favoritesReordered', { detail: { from, to } })
+    );
+  }
+
+  private indexOf(el: HTMLElement): number {
+    return parseInt(el.dataset.index!, 10);
+  }
+}
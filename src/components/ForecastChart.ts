@@ -0,0 +1,377 @@
+import type { DayForecast, HourForecast } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import { areUnitPreferencesEqual, convertTemperature, formatTemperature } from '../utils/units';
+import { formatPercent, formatRelativeDay, t } from '../i18n';
+import { getZonedDateTime } from '../utils/date';
+import { escapeHtml } from '../utils/html';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CHART_HEIGHT = 240;
+const MARGIN = { top: 12, right: 12, bottom: 28, left: 40 };
+const PRECIP_HEIGHT = 44;
+const PRECIP_GAP = 12;
+const HOURS_PER_DAY = 24;
+const TARGET_TICK_COUNT = 4;
+const NICE_STEPS = [1, 2, 5, 10, 20, 50];
+
+interface ChartPoint {
+  hour: HourForecast;
+  day: DayForecast;
+  /** Position on the x axis, in hours since midnight of the first day. */
+  slot: number;
+}
+
+interface ChartScales {
+  x: (slot: number) => number;
+  y: (value: number) => number;
+}
+
+/**
+ * Dependency-free SVG chart of the forecast: a band between each day's high
+ * and low, the hourly temperature line and hourly precipitation-probability
+ * bars. Hovering or moving the keyboard cursor shows a tooltip, and the chart
+ * redraws to fit whenever its container is resized.
+ */
+export class ForecastChart {
+  private container: HTMLElement;
+  private forecast: DayForecast[] = [];
+  private points: ChartPoint[] = [];
+  private state: AppState;
+  /** The current date at the location, for "Today" and "Tomorrow" labels. */
+  private today = '';
+  private scales: ChartScales | null = null;
+  private activeIndex = -1;
+  private lastWidth = 0;
+  private resizeObserver: ResizeObserver | null = null;
+  private unsubscribeUnits: () => void;
+
+  constructor(container: HTMLElement, state: AppState) {
+    this.container = container;
+    this.state = state;
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => {
+        if (this.points.length > 0) {
+          this.draw();
+        }
+      },
+      areUnitPreferencesEqual
+    );
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.handleResize());
+      this.resizeObserver.observe(container);
+    }
+  }
+
+  /**
+   * Renders the chart for the given forecast, in the units currently
+   * selected in AppState.
+   * @param forecast - Array of daily forecast data carrying hourly entries
+   * @param timeZone - The location's IANA time zone; defaults to the browser's
+   */
+  render(forecast: DayForecast[], timeZone?: string): void {
+    this.forecast = forecast;
+    this.today = getZonedDateTime(timeZone).slice(0, 10);
+    this.points = forecast.flatMap((day, dayIndex) =>
+      day.hours.map((hour) => ({
+        hour,
+        day,
+        slot: dayIndex * HOURS_PER_DAY + parseInt(hour.time.slice(11, 13), 10),
+      }))
+    );
+    this.draw();
+  }
+
+  /**
+   * Displays a loading skeleton in the container.
+   */
+  showLoading(): void {
+    this.forecast = [];
+    this.points = [];
+    this.container.innerHTML = `
+      <div class="forecast-chart">
+        <h3 class="forecast-chart__title">${t('chart.title')}</h3>
+        <div class="skeleton forecast-chart__skeleton"></div>
+      </div>
+    `;
+  }
+
+  /**
+   * Removes the chart, e.g. when the forecast failed to load.
+   */
+  clear(): void {
+    this.forecast = [];
+    this.points = [];
+    this.scales = null;
+    this.container.innerHTML = '';
+  }
+
+  /**
+   * Stops observing the container and unit changes, and removes the chart.
+   */
+  destroy(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.unsubscribeUnits();
+    this.clear();
+  }
+
+  private handleResize(): void {
+    const width = this.container.clientWidth;
+    if (width === this.lastWidth || this.points.length === 0) return;
+    this.draw();
+  }
+
+  private draw(): void {
+    this.activeIndex = -1;
+    this.scales = null;
+
+    if (this.points.length === 0) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    this.container.innerHTML = `
+      <div class="forecast-chart">
+        <h3 class="forecast-chart__title">${t('chart.title')}</h3>
+        <div class="forecast-chart__plot"></div>
+      </div>
+    `;
+
+    const plotEl = this.container.querySelector('.forecast-chart__plot') as HTMLElement;
+    const width = plotEl.clientWidth;
+    this.lastWidth = this.container.clientWidth;
+    // Hidden containers have no width; the resize observer redraws once shown
+    if (width === 0) return;
+
+    plotEl.innerHTML = `
+      ${this.renderSvg(width)}
+      <div class="forecast-chart__tooltip forecast-chart__tooltip--hidden" role="status" aria-live="polite"></div>
+    `;
+
+    this.attachEventListeners(plotEl);
+  }
+
+  private renderSvg(width: number): string {
+    const unit = this.state.units.temperature;
+    const toDisplay = (celsius: number) => convertTemperature(celsius, unit);
+
+    const totalSlots = this.forecast.length * HOURS_PER_DAY;
+    const plotLeft = MARGIN.left;
+    const plotRight = width - MARGIN.right;
+    const plotBottom = CHART_HEIGHT - MARGIN.bottom;
+    const tempTop = MARGIN.top;
+    const tempBottom = plotBottom - PRECIP_HEIGHT - PRECIP_GAP;
+
+    const values = [
+      ...this.forecast.flatMap((day) => [day.maxTemp, day.minTemp]),
+      ...this.points.map((point) => point.hour.temperature),
+    ].map(toDisplay);
+    const ticks = computeTicks(Math.min(...values), Math.max(...values));
+    const domainMin = ticks[0];
+    const domainMax = ticks[ticks.length - 1];
+
+    const x = (slot: number) => plotLeft + (slot / Math.max(1, totalSlots - 1)) * (plotRight - plotLeft);
+    const y = (value: number) =>
+      tempBottom - ((value - domainMin) / (domainMax - domainMin)) * (tempBottom - tempTop);
+    this.scales = { x, y };
+
+    const gridLines = ticks
+      .map(
+        (tick) => `
+        <line class="forecast-chart__grid" x1="${plotLeft}" x2="${plotRight}" y1="${y(tick)}" y2="${y(tick)}"/>
+        <text class="forecast-chart__axis-label" x="${plotLeft - 6}" y="${y(tick)}" text-anchor="end" dominant-baseline="middle">${tick}°</text>
+      `
+      )
+      .join('');
+
+    const dayMarks = this.forecast
+      .map((day, index) => {
+        const start = x(index * HOURS_PER_DAY);
+        const center = x(index * HOURS_PER_DAY + HOURS_PER_DAY / 2);
+        const separator =
+          index > 0
+            ? `<line class="forecast-chart__day-separator" x1="${start}" x2="${start}" y1="${tempTop}" y2="${plotBottom}"/>`
+            : '';
+        return `
+          ${separator}
+          <text class="forecast-chart__axis-label" x="${center}" y="${plotBottom + 18}" text-anchor="middle">${formatRelativeDay(day.date, this.today)}</text>
+        `;
+      })
+      .join('');
+
+    // High/low band through each day's midpoint, extended to both chart edges
+    const lastDay = this.forecast[this.forecast.length - 1];
+    const bandStops = [
+      { slot: 0, day: this.forecast[0] },
+      ...this.forecast.map((day, index) => ({ slot: index * HOURS_PER_DAY + HOURS_PER_DAY / 2, day })),
+      { slot: totalSlots - 1, day: lastDay },
+    ];
+    const upper = bandStops.map(({ slot, day }) => `${x(slot)},${y(toDisplay(day.maxTemp))}`);
+    const lower = bandStops.map(({ slot, day }) => `${x(slot)},${y(toDisplay(day.minTemp))}`).reverse();
+    const band = `<polygon class="forecast-chart__band" points="${[...upper, ...lower].join(' ')}"/>`;
+
+    const line = `<path class="forecast-chart__line" d="${this.points
+      .map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.slot)},${y(toDisplay(point.hour.temperature))}`)
+      .join(' ')}"/>`;
+
+    const barWidth = Math.max(1, (plotRight - plotLeft) / totalSlots - 1);
+    const bars = this.points
+      .filter((point) => point.hour.chanceOfPrecipitation > 0)
+      .map((point) => {
+        const height = (point.hour.chanceOfPrecipitation / 100) * PRECIP_HEIGHT;
+        return `<rect class="forecast-chart__precip" x="${x(point.slot) - barWidth / 2}" y="${plotBottom - height}" width="${barWidth}" height="${height}"/>`;
+      })
+      .join('');
+
+    const label = t('chart.label', { count: this.forecast.length });
+
+    return `
+      <svg
+        class="forecast-chart__svg"
+        xmlns="${SVG_NS}"
+        width="${width}"
+        height="${CHART_HEIGHT}"
+        viewBox="0 0 ${width} ${CHART_HEIGHT}"
+        role="img"
+        tabindex="0"
+        aria-label="${label}"
+      >
+        ${gridLines}
+        ${dayMarks}
+        <line class="forecast-chart__baseline" x1="${plotLeft}" x2="${plotRight}" y1="${plotBottom}" y2="${plotBottom}"/>
+        ${bars}
+        ${band}
+        ${line}
+        <line class="forecast-chart__cursor forecast-chart__cursor--hidden" x1="0" x2="0" y1="${tempTop}" y2="${plotBottom}"/>
+        <circle class="forecast-chart__marker forecast-chart__cursor--hidden" r="4" cx="0" cy="0"/>
+      </svg>
+    `;
+  }
+
+  private attachEventListeners(plotEl: HTMLElement): void {
+    const svg = plotEl.querySelector('.forecast-chart__svg') as SVGSVGElement;
+
+    svg.addEventListener('pointermove', (e) => {
+      if (!this.scales) return;
+      const left = svg.getBoundingClientRect().left;
+      this.setActiveIndex(this.findNearestIndex(e.clientX - left));
+    });
+
+    svg.addEventListener('pointerleave', () => {
+      if (document.activeElement !== svg) {
+        this.setActiveIndex(-1);
+      }
+    });
+
+    svg.addEventListener('focus', () => {
+      if (this.activeIndex < 0) {
+        this.setActiveIndex(0);
+      }
+    });
+
+    svg.addEventListener('blur', () => this.setActiveIndex(-1));
+
+    svg.addEventListener('keydown', (e) => {
+      const last = this.points.length - 1;
+      switch (e.key) {
+        case 'ArrowLeft':
+          e.preventDefault();
+          this.setActiveIndex(Math.max(0, this.activeIndex - 1));
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          this.setActiveIndex(Math.min(last, this.activeIndex + 1));
+          break;
+        case 'Home':
+          e.preventDefault();
+          this.setActiveIndex(0);
+          break;
+        case 'End':
+          e.preventDefault();
+          this.setActiveIndex(last);
+          break;
+        case 'Escape':
+          this.setActiveIndex(-1);
+          break;
+      }
+    });
+  }
+
+  private findNearestIndex(px: number): number {
+    const { x } = this.scales!;
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    this.points.forEach((point, index) => {
+      const distance = Math.abs(x(point.slot) - px);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  /**
+   * Moves the cursor and tooltip to the given hour, or hides them for -1.
+   */
+  private setActiveIndex(index: number): void {
+    this.activeIndex = index;
+
+    const cursor = this.container.querySelector('line.forecast-chart__cursor');
+    const marker = this.container.querySelector('.forecast-chart__marker');
+    const tooltip = this.container.querySelector<HTMLElement>('.forecast-chart__tooltip');
+    if (!cursor || !marker || !tooltip || !this.scales) return;
+
+    const point = this.points[index];
+    if (!point) {
+      cursor.classList.add('forecast-chart__cursor--hidden');
+      marker.classList.add('forecast-chart__cursor--hidden');
+      tooltip.classList.add('forecast-chart__tooltip--hidden');
+      return;
+    }
+
+    const cx = this.scales.x(point.slot);
+    const cy = this.scales.y(convertTemperature(point.hour.temperature, this.state.units.temperature));
+    cursor.setAttribute('x1', String(cx));
+    cursor.setAttribute('x2', String(cx));
+    marker.setAttribute('cx', String(cx));
+    marker.setAttribute('cy', String(cy));
+    cursor.classList.remove('forecast-chart__cursor--hidden');
+    marker.classList.remove('forecast-chart__cursor--hidden');
+
+    tooltip.innerHTML = `
+      <span class="forecast-chart__tooltip-time">${formatRelativeDay(point.day.date, this.today)} ${escapeHtml(point.hour.time.slice(11, 16))}</span>
+      <span class="forecast-chart__tooltip-temp">${formatTemperature(point.hour.temperature, this.state.units)}</span>
+      <span>${t('chart.chanceOfPrecipitation', { percent: formatPercent(point.hour.chanceOfPrecipitation) })}</span>
+      <span>${t('common.highLow', {
+        high: formatTemperature(point.day.maxTemp, this.state.units),
+        low: formatTemperature(point.day.minTemp, this.state.units),
+      })}</span>
+    `;
+    tooltip.classList.remove('forecast-chart__tooltip--hidden');
+
+    // Keep the tooltip inside the plot near the edges
+    const half = tooltip.offsetWidth / 2;
+    const plotWidth = tooltip.parentElement?.clientWidth ?? this.lastWidth;
+    tooltip.style.left = `${Math.max(half, Math.min(plotWidth - half, cx))}px`;
+  }
+}
+
+/**
+ * Picks evenly spaced, round tick values covering [min, max].
+ */
+function computeTicks(min: number, max: number): number[] {
+  const span = Math.max(1, max - min);
+  const rawStep = span / TARGET_TICK_COUNT;
+  const step = NICE_STEPS.find((candidate) => candidate >= rawStep) ?? NICE_STEPS[NICE_STEPS.length - 1];
+
+  const first = Math.floor(min / step) * step;
+  const last = Math.max(first + step, Math.ceil(max / step) * step);
+  const ticks: number[] = [];
+  for (let tick = first; tick <= last; tick += step) {
+    ticks.push(tick);
+  }
+  return ticks;
+}
@@ -0,0 +1,180 @@
+import type { HourForecast, WeatherHistory } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import {
+  areUnitPreferencesEqual,
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+} from '../utils/units';
+import { formatPercent, t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Component to look up observed weather for a past date. Emits 'dateSelected'
+ * with the chosen "YYYY-MM-DD" date; the owner fetches the history and passes
+ * it back through render().
+ */
+export class HistoryView extends EventTarget {
+  private container: HTMLElement;
+  private state: AppState;
+  private history: WeatherHistory | null = null;
+  private selectedDate = '';
+  private maxDate = '';
+  private unsubscribeUnits: () => void;
+
+  constructor(container: HTMLElement, state: AppState) {
+    super();
+    this.container = container;
+    this.state = state;
+    // Re-render shown results in new units; nothing to do without results
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => {
+        if (this.history) {
+          this.render(this.history);
+        }
+      },
+      areUnitPreferencesEqual
+    );
+  }
+
+  /**
+   * Resets the view for a new location, clearing previous results.
+   * @param maxDate - The latest selectable date, usually yesterday at the location
+   */
+  reset(maxDate: string): void {
+    this.history = null;
+    this.maxDate = maxDate;
+    if (this.selectedDate > maxDate) {
+      this.selectedDate = '';
+    }
+    this.renderShell(`<p class="weather-history__hint">${t('history.hint')}</p>`);
+  }
+
+  /**
+   * Renders observed conditions for the selected date, in the units
+   * currently selected in AppState.
+   * @param history - The observed daily and hourly conditions
+   */
+  render(history: WeatherHistory): void {
+    this.history = history;
+    const { units } = this.state;
+    const { day } = history;
+
+    const hours = day.hours.map((hour) => this.renderHour(hour)).join('');
+    const sunrise = day.astro.sunrise ?? '—';
+    const sunset = day.astro.sunset ?? '—';
+
+    this.renderShell(`
+      <div class="weather-history__summary">
+        <img class="weather-history__icon" src="${escapeHtml(day.icon)}" alt="${escapeHtml(day.condition)}" />
+        <div class="weather-history__overview">
+          <span class="weather-history__condition">${escapeHtml(day.condition)}</span>
+          <span class="weather-history__temps">
+            ${t('common.highLow', { high: formatTemperature(day.maxTemp, units), low: formatTemperature(day.minTemp, units) })}
+          </span>
+        </div>
+        <dl class="weather-history__stats">
+          <div><dt>${t('common.precipitation')}</dt><dd>${formatPrecipitation(day.totalPrecipitation, units)}</dd></div>
+          <div><dt>${t('current.humidity')}</dt><dd>${formatPercent(day.humidity)}</dd></div>
+          <div><dt>${t('history.maxWind')}</dt><dd>${formatWindSpeed(day.windSpeed, units)}</dd></div>
+          <div><dt>${t('history.sunriseSunset')}</dt><dd>${sunrise} / ${sunset}</dd></div>
+        </dl>
+      </div>
+      ${
+        hours
+          ? `
+        <div class="weather-history__table-wrapper" tabindex="0">
+          <table class="weather-history__table">
+            <caption class="sr-only">${t('history.hoursCaption')}</caption>
+            <thead>
+              <tr>
+                <th scope="col">${t('history.time')}</th>
+                <th scope="col">${t('history.temperature')}</th>
+                <th scope="col">${t('history.feelsLike')}</th>
+                <th scope="col">${t('current.wind')}</th>
+                <th scope="col">${t('history.conditions')}</th>
+              </tr>
+            </thead>
+            <tbody>${hours}</tbody>
+          </table>
+        </div>
+      `
+          : ''
+      }
+    `);
+  }
+
+  /**
+   * Displays a loading skeleton below the date picker.
+   */
+  showLoading(): void {
+    this.history = null;
+    this.renderShell(`
+      <div class="weather-history__summary">
+        <div class="skeleton skeleton--icon"></div>
+        <div class="skeleton skeleton--text skeleton--w60"></div>
+      </div>
+    `);
+  }
+
+  /**
+   * Displays an error message below the date picker.
+   * @param message - Explanation of what went wrong
+   */
+  showError(message: string): void {
+    this.history = null;
+    this.renderShell(`<p class="weather-history__error" role="alert">${escapeHtml(message)}</p>`);
+  }
+
+  /**
+   * Stops following unit changes.
+   */
+  destroy(): void {
+    this.unsubscribeUnits();
+  }
+
+  private renderShell(body: string): void {
+    this.container.innerHTML = `
+      <section class="weather-history" aria-labelledby="weather-history-title">
+        <div class="weather-history__header">
+          <h3 class="weather-history__title" id="weather-history-title">${t('history.title')}</h3>
+          <label class="weather-history__picker">
+            <span class="sr-only">${t('history.date')}</span>
+            <input
+              type="date"
+              class="weather-history__date"
+              value="${this.selectedDate}"
+              max="${this.maxDate}"
+            />
+          </label>
+        </div>
+        <div class="weather-history__body">
+          ${body}
+        </div>
+      </section>
+    `;
+
+    const input = this.container.querySelector<HTMLInputElement>('.weather-history__date');
+    input?.addEventListener('change', () => {
+      if (!input.value) return;
+      this.selectedDate = input.value;
+      this.dispatchEvent(
+        new CustomEvent('dateSelected', { detail: { date: input.value } })
+      );
+    });
+  }
+
+  private renderHour(hour: HourForecast): string {
+    const { units } = this.state;
+    return `
+      <tr>
+        <td>${hour.time.slice(11, 16)}</td>
+        <td>${formatTemperature(hour.temperature, units)}</td>
+        <td>${formatTemperature(hour.feelsLike, units)}</td>
+        <td>${formatWindSpeed(hour.windSpeed, units)}</td>
+        <td>${escapeHtml(hour.condition)}</td>
+      </tr>
+    `;
+  }
+}
@@ -0,0 +1,125 @@
+import type { DayForecast, HourForecast } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import { areUnitPreferencesEqual, formatTemperature, formatWindSpeed } from '../utils/units';
+import { formatPercent, t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+const DEFAULT_HOURS_TO_SHOW = 24;
+
+/**
+ * Component to display a horizontally scrollable hour-by-hour timeline
+ * starting at the current hour.
+ */
+export class HourlyForecast {
+  private container: HTMLElement;
+  private hoursToShow: number;
+  private state: AppState;
+  private forecast: DayForecast[] | null = null;
+  private unsubscribeUnits: () => void;
+
+  constructor(container: HTMLElement, state: AppState, hoursToShow: number = DEFAULT_HOURS_TO_SHOW) {
+    this.container = container;
+    this.state = state;
+    this.hoursToShow = hoursToShow;
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => {
+        if (this.forecast) {
+          this.render(this.forecast);
+        }
+      },
+      areUnitPreferencesEqual
+    );
+  }
+
+  /**
+   * Renders the upcoming hours found in the forecast into the container,
+   * in the units currently selected in AppState.
+   * @param forecast - Array of daily forecast data carrying hourly entries
+   */
+  render(forecast: DayForecast[]): void {
+    this.forecast = forecast;
+    const hours = this.selectUpcomingHours(forecast);
+
+    if (hours.length === 0) {
+      this.container.innerHTML = '';
+      return;
+    }
+
+    const items = hours
+      .map((hour, index) => this.renderHour(hour, index))
+      .join('');
+
+    this.container.innerHTML = `
+      <div class="hourly-forecast">
+        <h3 class="hourly-forecast__title">${t('hourly.title', { count: hours.length })}</h3>
+        <ol class="hourly-forecast__timeline" tabindex="0" aria-label="${t('hourly.label')}">
+          ${items}
+        </ol>
+      </div>
+    `;
+  }
+
+  /**
+   * Displays a loading skeleton in the container.
+   */
+  showLoading(): void {
+    this.forecast = null;
+    const skeletons = Array.from({ length: 8 })
+      .map(
+        () => `
+        <li class="hourly-forecast__item hourly-forecast__item--skeleton">
+          <div class="skeleton skeleton--date"></div>
+          <div class="skeleton skeleton--icon"></div>
+          <div class="skeleton skeleton--temp"></div>
+        </li>
+      `
+      )
+      .join('');
+
+    this.container.innerHTML = `
+      <div class="hourly-forecast">
+        <h3 class="hourly-forecast__title">${t('common.hourly')}</h3>
+        <ol class="hourly-forecast__timeline">
+          ${skeletons}
+        </ol>
+      </div>
+    `;
+  }
+
+  /**
+   * Stops following unit changes.
+   */
+  destroy(): void {
+    this.unsubscribeUnits();
+  }
+
+  private selectUpcomingHours(forecast: DayForecast[]): HourForecast[] {
+    // Keep the hour that is currently in progress
+    const cutoff = Date.now() / 1000 - 3600;
+    return forecast
+      .flatMap((day) => day.hours)
+      .filter((hour) => hour.timeEpoch > cutoff)
+      .slice(0, this.hoursToShow);
+  }
+
+  private renderHour(hour: HourForecast, index: number): string {
+    const { units } = this.state;
+    const label = index === 0 ? t('hourly.now') : hour.time.slice(11, 16);
+    return `
+      <li class="hourly-forecast__item">
+        <span class="hourly-forecast__time">${label}</span>
+        <img
+          class="hourly-forecast__icon"
+          src="${escapeHtml(hour.icon)}"
+          alt="${escapeHtml(hour.condition)}"
+          loading="lazy"
+        />
+        <span class="hourly-forecast__temp">${formatTemperature(hour.temperature, units)}</span>
+        <span class="hourly-forecast__feels">${t('hourly.feelsLike', { temperature: formatTemperature(hour.feelsLike, units, { unitLabel: false }) })}</span>
+        <span class="hourly-forecast__precip" title="${t('common.chanceOfPrecipitation')}">${formatPercent(hour.chanceOfPrecipitation)}</span>
+        <span class="hourly-forecast__wind">${formatWindSpeed(hour.windSpeed, units)}</span>
+      </li>
+    `;
+  }
+}
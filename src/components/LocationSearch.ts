@@ -1,24 +1,51 @@
+
 import type { WeatherService } from '../services/weatherService';
 import type { LocationSuggestion } from '../types/weather';
+import { getDistanceKm, isSameLocation } from '../utils/location';
+import { escapeHtml } from '../utils/html';
+import { t } from '../i18n';
+
+// How far the device must move before follow mode loads a new location
+const FOLLOW_DISTANCE_THRESHOLD_KM = 5;
+
+let instanceCount = 0;
 
 /**
- * Interactive location search component with autocomplete dropdown
- * and geolocation support.
+ * Interactive location search component with autocomplete dropdown, recent
+ * searches, geolocation and a "follow my location" mode. Follows the WAI-ARIA
+ * combobox pattern with a grid popup: the input keeps focus while Up/Down
+ * move the active row and Left/Right move between a location and its
+ * favorite or remove button.
  */
 export class LocationSearch extends EventTarget {
   private container: HTMLElement;
   private weatherService: WeatherService;
   private inputEl!: HTMLInputElement;
   private dropdownEl!: HTMLElement;
+  private statusEl!: HTMLElement;
+  private idPrefix: string;
+  private activeIndex = -1;
+  /** 0 for the location cell of the active row, 1 for its button. */
+  private activeColumn: 0 | 1 = 0;
+  private lastQuery = '';
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private searchController: AbortController | null = null;
   private suggestions: LocationSuggestion[] = [];
+  private favorites: LocationSuggestion[] = [];
+  private recentSearches: LocationSuggestion[] = [];
+  private showingRecent = false;
   private isLoading = false;
+  private followBtn!: HTMLButtonElement;
+  private watchId: number | null = null;
+  private followController: AbortController | null = null;
+  private lastFollowedPosition: Pick<LocationSuggestion, 'lat' | 'lon'> | null = null;
   private boundHandleClickOutside: (e: MouseEvent) => void;
 
   constructor(container: HTMLElement, weatherService: WeatherService) {
     super();
     this.container = container;
     this.weatherService = weatherService;
+    this.idPrefix = `location-search-${++instanceCount}`;
     this.boundHandleClickOutside = this.handleClickOutside.bind(this);
   }
 
@@ -36,32 +63,159 @@ export class LocationSearch extends EventTarget {
           <input
             type="text"
             class="location-search__input"
-            placeholder="Search for a city..."
+            placeholder="${t('search.placeholder')}"
             autocomplete="off"
+            role="combobox"
+            aria-label="${t('search.label')}"
+            aria-autocomplete="list"
+            aria-haspopup="grid"
+            aria-expanded="false"
+            aria-controls="${this.idPrefix}-listbox"
           />
-          <button class="location-search__geo-btn" title="Use current location" type="button">
+          <button class="location-search__geo-btn" title="${t('search.useCurrentLocation')}" type="button">
             <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" stroke-width="2">
               <circle cx="12" cy="12" r="3"/>
               <path d="M12 2v4M12 18v4M2 12h4M18 12h4"/>
             </svg>
           </button>
+          <button
+            class="location-search__follow-btn"
+            title="${t('search.follow')}"
+            aria-label="${t('search.follow')}"
+            aria-pressed="false"
+            type="button"
+          >
+            <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" stroke-width="2">
+              <polygon points="3 11 22 2 13 21 11 13 3 11"/>
+            </svg>
+          </button>
         </div>
         <div class="location-search__dropdown location-search__dropdown--hidden"></div>
+        <div class="sr-only" role="status" aria-live="polite"></div>
       </div>
     `;
 
     this.inputEl = this.container.querySelector('.location-search__input') as HTMLInputElement;
     this.dropdownEl = this.container.querySelector('.location-search__dropdown') as HTMLElement;
+    this.statusEl = this.container.querySelector('[role="status"]') as HTMLElement;
 
     this.inputEl.addEventListener('input', this.handleInput.bind(this));
     this.inputEl.addEventListener('focus', this.handleFocus.bind(this));
+    this.inputEl.addEventListener('keydown', this.handleKeydown.bind(this));
 
     const geoBtn = this.container.querySelector('.location-search__geo-btn') as HTMLButtonElement;
     geoBtn.addEventListener('click', this.handleGeolocation.bind(this));
 
+    this.followBtn = this.container.querySelector('.location-search__follow-btn') as HTMLButtonElement;
+    this.followBtn.addEventListener('click', () => {
+      if (this.isFollowing()) {
+        this.stopFollowing();
+      } else {
+        this.startFollowing();
+      }
+    });
+
     document.addEventListener('click', this.boundHandleClickOutside);
   }
 
+  /**
+   * Updates the favorites used to mark suggestions with a filled star.
+   * @param favorites - The user's saved favorite locations
+   */
+  setFavorites(favorites: LocationSuggestion[]): void {
+    this.favorites = favorites;
+    if (!this.isLoading && !this.showingRecent && this.suggestions.length > 0 && this.dropdownEl) {
+      const wasHidden = this.dropdownEl.classList.contains('location-search__dropdown--hidden');
+      this.renderDropdown();
+      if (wasHidden) {
+        this.hideDropdown();
+      }
+    }
+  }
+
+  /**
+   * Updates the recently selected locations shown when the input is empty.
+   * @param recentSearches - Recent locations, most recent first
+   */
+  setRecentSearches(recentSearches: LocationSuggestion[]): void {
+    this.recentSearches = recentSearches;
+    if (!this.showingRecent || !this.dropdownEl) return;
+
+    const wasHidden = this.dropdownEl.classList.contains('location-search__dropdown--hidden');
+    if (recentSearches.length === 0) {
+      this.showingRecent = false;
+      this.hideDropdown();
+    } else if (!wasHidden) {
+      this.renderRecent();
+    }
+  }
+
+  /**
+   * Re-applies labels after the locale changed, keeping the typed query and
+   * follow mode. An open dropdown is closed rather than re-rendered.
+   */
+  refreshLabels(): void {
+    if (!this.inputEl) return;
+
+    this.inputEl.placeholder = t('search.placeholder');
+    this.inputEl.setAttribute('aria-label', t('search.label'));
+    const geoBtn = this.container.querySelector<HTMLElement>('.location-search__geo-btn');
+    if (geoBtn) {
+      geoBtn.title = t('search.useCurrentLocation');
+    }
+    this.followBtn.setAttribute('aria-label', t('search.follow'));
+    this.updateFollowButton();
+    this.hideDropdown();
+  }
+
+  /**
+   * Whether follow mode is watching the device position.
+   */
+  isFollowing(): boolean {
+    return this.watchId !== null;
+  }
+
+  /**
+   * Watches the device position and emits 'locationFollowed' whenever it has
+   * moved more than FOLLOW_DISTANCE_THRESHOLD_KM since the last emitted location.
+   */
+  startFollowing(): void {
+    if (this.isFollowing()) return;
+    if (!navigator.geolocation) {
+      this.renderDropdownError(t('search.geolocationUnsupported'));
+      return;
+    }
+
+    this.lastFollowedPosition = null;
+    this.watchId = navigator.geolocation.watchPosition(
+      (position) => this.handleFollowedPosition(position),
+      (error) => {
+        if (error.code === error.PERMISSION_DENIED) {
+          this.stopFollowing();
+          this.renderDropdownError(t('search.followFailed'));
+        }
+        // Other failures are transient; the watch keeps running
+      },
+      { enableHighAccuracy: false, maximumAge: 60000 }
+    );
+    this.updateFollowButton();
+    this.announce(t('search.followingStarted'));
+  }
+
+  /**
+   * Stops follow mode. Does nothing if it is not active.
+   */
+  stopFollowing(): void {
+    if (!this.isFollowing()) return;
+
+    navigator.geolocation.clearWatch(this.watchId!);
+    this.watchId = null;
+    this.followController?.abort();
+    this.followController = null;
+    this.updateFollowButton();
+    this.announce(t('search.followingStopped'));
+  }
+
   /**
    * Cleans up event listeners and DOM.
    */
@@ -69,6 +223,8 @@ export class LocationSearch extends EventTarget {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
     }
+    this.stopFollowing();
+    this.searchController?.abort();
     document.removeEventListener('click', this.boundHandleClickOutside);
     this.container.innerHTML = '';
   }
@@ -80,7 +236,18 @@ export class LocationSearch extends EventTarget {
       clearTimeout(this.debounceTimer);
     }
 
+    // Results for the previous text are no longer wanted
+    this.searchController?.abort();
+    this.isLoading = false;
+
+    if (query.length === 0) {
+      this.suggestions = [];
+      this.openDropdown();
+      return;
+    }
+
     if (query.length < 2) {
+      this.suggestions = [];
       this.hideDropdown();
       return;
     }
@@ -91,41 +258,127 @@ export class LocationSearch extends EventTarget {
   }
 
   private handleFocus(): void {
-    if (this.suggestions.length > 0) {
+    this.openDropdown();
+  }
+
+  /**
+   * Shows recent searches for an empty input, or the last results otherwise.
+   */
+  private openDropdown(): void {
+    if (this.inputEl.value.trim() === '') {
+      if (this.recentSearches.length > 0) {
+        this.renderRecent();
+      } else {
+        this.hideDropdown();
+      }
+    } else if (this.suggestions.length > 0 && !this.showingRecent) {
       this.showDropdown();
     }
   }
 
+  private handleKeydown(e: KeyboardEvent): void {
+    let isOpen = !this.dropdownEl.classList.contains('location-search__dropdown--hidden');
+    if (!isOpen && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      this.openDropdown();
+      isOpen = !this.dropdownEl.classList.contains('location-search__dropdown--hidden');
+    }
+    const count = this.isLoading || !isOpen ? 0 : this.visibleOptions().length;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (count === 0) return;
+        e.preventDefault();
+        this.setActiveIndex(this.activeIndex < count - 1 ? this.activeIndex + 1 : 0);
+        break;
+      case 'ArrowRight':
+        if (this.activeIndex < 0 || this.activeIndex >= count || this.activeColumn === 1) return;
+        e.preventDefault();
+        this.setActiveIndex(this.activeIndex, 1);
+        break;
+      case 'ArrowLeft':
+        if (this.activeIndex < 0 || this.activeIndex >= count || this.activeColumn === 0) return;
+        e.preventDefault();
+        this.setActiveIndex(this.activeIndex, 0);
+        break;
+      case 'ArrowUp':
+        if (count === 0) return;
+        e.preventDefault();
+        this.setActiveIndex(this.activeIndex > 0 ? this.activeIndex - 1 : count - 1);
+        break;
+      case 'Home':
+        if (!isOpen || count === 0) return;
+        e.preventDefault();
+        this.setActiveIndex(0, 0);
+        break;
+      case 'End':
+        if (!isOpen || count === 0) return;
+        e.preventDefault();
+        this.setActiveIndex(count - 1, 0);
+        break;
+      case 'Enter':
+        if (!isOpen || this.activeIndex < 0 || this.activeIndex >= count) return;
+        e.preventDefault();
+        if (this.activeColumn === 1) {
+          this.dropdownEl.querySelector<HTMLButtonElement>(`#${this.actionId(this.activeIndex)} button`)?.click();
+        } else {
+          this.selectSuggestion(this.activeIndex);
+        }
+        break;
+      case 'Escape':
+        if (!isOpen) return;
+        e.preventDefault();
+        this.hideDropdown();
+        break;
+      case 'Delete':
+        if (!this.showingRecent || this.activeIndex < 0 || this.activeIndex >= count) return;
+        e.preventDefault();
+        this.emitRecentRemoved(this.recentSearches[this.activeIndex]);
+        break;
+    }
+  }
+
   private handleClickOutside(e: MouseEvent): void {
-    const target = e.target as Node;
-    if (!this.container.contains(target)) {
+    // The path is captured at dispatch, so clicks on rows re-rendered by the click still count as inside
+    if (!e.composedPath().includes(this.container)) {
       this.hideDropdown();
     }
   }
 
   private async searchLocations(query: string): Promise<void> {
+    const signal = this.beginSearch();
+    this.setActiveIndex(-1);
     this.isLoading = true;
     this.renderDropdown();
 
     try {
-      this.suggestions = await this.weatherService.searchLocations(query);
+      const results = await this.weatherService.searchLocations(query, signal);
+      if (signal.aborted) return;
+
+      this.suggestions = results;
+      this.lastQuery = query;
+      this.activeIndex = -1;
       this.isLoading = false;
       this.renderDropdown();
+      this.announce(
+        results.length === 0 ? t('search.noResults') : t('search.resultsFound', { count: results.length })
+      );
     } catch {
+      if (signal.aborted) return;
       this.isLoading = false;
       this.suggestions = [];
-      this.renderDropdownError('Failed to search locations. Please try again.');
+      this.renderDropdownError(t('search.failed'));
     }
   }
 
   private async handleGeolocation(): Promise<void> {
     if (!navigator.geolocation) {
-      this.renderDropdownError('Geolocation is not supported by your browser.');
+      this.renderDropdownError(t('search.geolocationUnsupported'));
       return;
     }
 
+    const signal = this.beginSearch();
     this.isLoading = true;
-    this.inputEl.value = 'Detecting location...';
+    this.inputEl.value = t('search.detecting');
     this.inputEl.disabled = true;
 
     try {
@@ -136,31 +389,91 @@ export class LocationSearch extends EventTarget {
         });
       });
 
-      const { latitude, longitude } = position.coords;
-      const results = await this.weatherService.searchLocations(`${latitude},${longitude}`);
-
+      const location = await this.resolvePosition(position.coords, signal);
       this.inputEl.disabled = false;
+      if (signal.aborted) return;
 
-      if (results.length > 0) {
-        const location = results[0];
-        this.inputEl.value = `${location.name}, ${location.country}`;
-        this.emitLocationSelected(location);
-      } else {
-        this.renderDropdownError('Could not determine your location.');
-      }
+      this.inputEl.value = [location.name, location.country].filter(Boolean).join(', ');
+      this.stopFollowing();
+      this.emitLocationSelected(location);
     } catch {
       this.inputEl.disabled = false;
+      if (signal.aborted) return;
       this.inputEl.value = '';
-      this.renderDropdownError('Unable to get your location. Please check permissions.');
+      this.renderDropdownError(t('search.locateFailed'));
     } finally {
       this.isLoading = false;
     }
   }
 
+  private async handleFollowedPosition(position: GeolocationPosition): Promise<void> {
+    const point = { lat: position.coords.latitude, lon: position.coords.longitude };
+    if (this.lastFollowedPosition && getDistanceKm(this.lastFollowedPosition, point) < FOLLOW_DISTANCE_THRESHOLD_KM) {
+      return;
+    }
+    this.lastFollowedPosition = point;
+
+    this.followController?.abort();
+    this.followController = new AbortController();
+    const signal = this.followController.signal;
+
+    try {
+      const location = await this.resolvePosition(position.coords, signal);
+      if (signal.aborted) return;
+
+      this.dispatchEvent(
+        new CustomEvent('locationFollowed', { detail: { location } })
+      );
+    } catch {
+      // Retry on the next position update rather than interrupting the user
+      if (!signal.aborted) {
+        this.lastFollowedPosition = null;
+      }
+    }
+  }
+
+  /**
+   * Builds a location for the device's exact coordinates, named after the
+   * nearest search result. The coordinates stay authoritative so weather is
+   * fetched for this point, not for another place sharing the name.
+   */
+  private async resolvePosition(coords: GeolocationCoordinates, signal: AbortSignal): Promise<LocationSuggestion> {
+    const { latitude, longitude } = coords;
+    const results = await this.weatherService.searchLocations(`${latitude},${longitude}`, signal);
+    const nearest = results[0];
+
+    return {
+      name: nearest?.name ?? `${latitude.toFixed(2)}, ${longitude.toFixed(2)}`,
+      country: nearest?.country ?? '',
+      region: nearest?.region ?? '',
+      lat: latitude,
+      lon: longitude,
+    };
+  }
+
+  private updateFollowButton(): void {
+    const following = this.isFollowing();
+    this.followBtn.classList.toggle('location-search__follow-btn--active', following);
+    this.followBtn.setAttribute('aria-pressed', String(following));
+    this.followBtn.title = following ? t('search.stopFollowing') : t('search.follow');
+  }
+
+  /**
+   * Aborts the in-flight search, if any, and returns the signal
+   * for the search that is about to start.
+   */
+  private beginSearch(): AbortSignal {
+    this.searchController?.abort();
+    this.searchController = new AbortController();
+    return this.searchController.signal;
+  }
+
   private renderDropdown(): void {
+    this.showingRecent = false;
+
     if (this.isLoading) {
       this.dropdownEl.innerHTML = `
-        <div class="location-search__loading">Searching...</div>
+        <div class="location-search__loading">${t('search.searching')}</div>
       `;
       this.showDropdown();
       return;
@@ -168,49 +481,238 @@ export class LocationSearch extends EventTarget {
 
     if (this.suggestions.length === 0) {
       this.dropdownEl.innerHTML = `
-        <div class="location-search__empty">No locations found</div>
+        <div class="location-search__empty">${t('search.noResults')}</div>
       `;
       this.showDropdown();
       return;
     }
 
-    this.dropdownEl.innerHTML = this.suggestions
-      .map(
-        (suggestion, index) => `
-        <button class="location-search__suggestion" data-index="${index}" type="button">
-          <span class="location-search__suggestion-name">${suggestion.name}</span>
-          <span class="location-search__suggestion-detail">${suggestion.region}, ${suggestion.country}</span>
-        </button>
-      `
-      )
+    const options = this.suggestions
+      .map((suggestion, index) => {
+        const favorite = this.favorites.some((fav) => isSameLocation(fav, suggestion));
+        const active = index === this.activeIndex;
+        const detail = [suggestion.region, suggestion.country].filter(Boolean).join(', ');
+        return `
+        <li class="location-search__row" role="row">
+          <div
+            class="location-search__suggestion${active ? ' location-search__suggestion--active' : ''}"
+            id="${this.optionId(index)}"
+            role="gridcell"
+            aria-selected="${active}"
+            data-index="${index}"
+          >
+            <span class="location-search__suggestion-name">${this.highlight(suggestion.name)}</span>
+            <span class="location-search__suggestion-detail">${this.highlight(detail)}</span>
+          </div>
+          <div class="location-search__action" id="${this.actionId(index)}" role="gridcell" data-index="${index}">
+            <button
+              class="location-search__favorite${favorite ? ' location-search__favorite--active' : ''}"
+              data-index="${index}"
+              type="button"
+              tabindex="-1"
+              aria-pressed="${favorite}"
+              aria-label="${escapeHtml(t('common.saveFavorite', { name: suggestion.name }))}"
+            >${favorite ? '&#9733;' : '&#9734;'}</button>
+          </div>
+        </li>
+      `;
+      })
       .join('');
 
-    this.dropdownEl.querySelectorAll('.location-search__suggestion').forEach((btn) => {
+    this.dropdownEl.innerHTML = `
+      <ul class="location-search__listbox" id="${this.idPrefix}-listbox" role="grid" aria-label="${t('search.suggestions')}">
+        ${options}
+      </ul>
+    `;
+
+    this.dropdownEl.querySelectorAll('.location-search__suggestion').forEach((option) => {
+      option.addEventListener('click', (e) => {
+        const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
+        this.selectSuggestion(index);
+      });
+    });
+
+    this.dropdownEl.querySelectorAll('.location-search__favorite').forEach((btn) => {
       btn.addEventListener('click', (e) => {
         const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
-        const location = this.suggestions[index];
-        this.inputEl.value = `${location.name}, ${location.country}`;
-        this.hideDropdown();
-        this.emitLocationSelected(location);
+        this.dispatchEvent(
+          new CustomEvent('favoriteToggled', { detail: { location: this.suggestions[index] } })
+        );
+      });
+    });
+
+    this.showDropdown();
+    if (this.activeIndex >= 0) {
+      // Keep the active cell, e.g. after toggling a favorite from the keyboard
+      this.setActiveIndex(this.activeIndex);
+    }
+  }
+
+  private renderRecent(): void {
+    this.showingRecent = true;
+    const labelId = `${this.idPrefix}-recent-label`;
+
+    const options = this.recentSearches
+      .map((location, index) => {
+        const detail = [location.region, location.country].filter(Boolean).join(', ');
+        return `
+        <li class="location-search__row" role="row">
+          <div class="location-search__suggestion" id="${this.optionId(index)}" role="gridcell" aria-selected="false" data-index="${index}">
+            <span class="location-search__suggestion-name">${escapeHtml(location.name)}</span>
+            <span class="location-search__suggestion-detail">${escapeHtml(detail)}</span>
+          </div>
+          <div class="location-search__action" id="${this.actionId(index)}" role="gridcell" data-index="${index}">
+            <button
+              class="location-search__remove"
+              data-index="${index}"
+              type="button"
+              tabindex="-1"
+              aria-label="${escapeHtml(t('search.removeRecent', { name: location.name }))}"
+            >&times;</button>
+          </div>
+        </li>
+      `;
+      })
+      .join('');
+
+    this.dropdownEl.innerHTML = `
+      <div class="location-search__section-header">
+        <span class="location-search__section-title" id="${labelId}">${t('search.recent')}</span>
+        <button class="location-search__clear-history" type="button">${t('search.clearHistory')}</button>
+      </div>
+      <ul class="location-search__listbox" id="${this.idPrefix}-listbox" role="grid" aria-labelledby="${labelId}">
+        ${options}
+      </ul>
+    `;
+
+    this.dropdownEl.querySelectorAll('.location-search__suggestion').forEach((option) => {
+      option.addEventListener('click', (e) => {
+        const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
+        this.selectSuggestion(index);
       });
     });
 
+    this.dropdownEl.querySelectorAll('.location-search__remove').forEach((btn) => {
+      btn.addEventListener('click', (e) => {
+        const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
+        this.emitRecentRemoved(this.recentSearches[index]);
+      });
+    });
+
+    this.dropdownEl.querySelector('.location-search__clear-history')?.addEventListener('click', () => {
+      this.dispatchEvent(new CustomEvent('historyCleared'));
+    });
+
+    const wasHidden = this.dropdownEl.classList.contains('location-search__dropdown--hidden');
     this.showDropdown();
+    this.setActiveIndex(Math.min(this.activeIndex, this.recentSearches.length - 1));
+    if (wasHidden) {
+      this.announce(t('search.recentCount', { count: this.recentSearches.length }));
+    }
   }
 
   private renderDropdownError(message: string): void {
+    this.showingRecent = false;
     this.dropdownEl.innerHTML = `
-      <div class="location-search__error">${message}</div>
+      <div class="location-search__error">${escapeHtml(message)}</div>
     `;
     this.showDropdown();
+    this.announce(message);
+  }
+
+  private visibleOptions(): LocationSuggestion[] {
+    return this.showingRecent ? this.recentSearches : this.suggestions;
+  }
+
+  private selectSuggestion(index: number): void {
+    const location = this.visibleOptions()[index];
+    if (!location) return;
+
+    this.inputEl.value = `${location.name}, ${location.country}`;
+    this.hideDropdown();
+    this.stopFollowing();
+    this.emitLocationSelected(location);
+  }
+
+  /**
+   * Moves the active cell, keeping aria-activedescendant and the
+   * highlighted row in sync without re-rendering the list.
+   * @param index - The row, or -1 for none
+   * @param column - 0 for the location, 1 for the row's button
+   */
+  private setActiveIndex(index: number, column: 0 | 1 = this.activeColumn): void {
+    this.activeIndex = index;
+    this.activeColumn = index >= 0 ? column : 0;
+
+    this.dropdownEl.querySelectorAll<HTMLElement>('.location-search__suggestion').forEach((option) => {
+      const active = option.dataset.index === String(index);
+      option.classList.toggle('location-search__suggestion--active', active && this.activeColumn === 0);
+      option.setAttribute('aria-selected', String(active));
+      if (active) {
+        option.scrollIntoView({ block: 'nearest' });
+      }
+    });
+
+    this.dropdownEl.querySelectorAll<HTMLElement>('.location-search__action').forEach((cell) => {
+      cell.classList.toggle(
+        'location-search__action--active',
+        cell.dataset.index === String(index) && this.activeColumn === 1
+      );
+    });
+
+    if (index >= 0) {
+      this.inputEl.setAttribute(
+        'aria-activedescendant',
+        this.activeColumn === 0 ? this.optionId(index) : this.actionId(index)
+      );
+    } else {
+      this.inputEl.removeAttribute('aria-activedescendant');
+    }
   }
 
   private showDropdown(): void {
     this.dropdownEl.classList.remove('location-search__dropdown--hidden');
+    this.inputEl.setAttribute('aria-expanded', 'true');
   }
 
   private hideDropdown(): void {
     this.dropdownEl.classList.add('location-search__dropdown--hidden');
+    this.inputEl.setAttribute('aria-expanded', 'false');
+    this.setActiveIndex(-1);
+  }
+
+  private announce(message: string): void {
+    this.statusEl.textContent = message;
+  }
+
+  private optionId(index: number): string {
+    return `${this.idPrefix}-option-${index}`;
+  }
+
+  private actionId(index: number): string {
+    return `${this.idPrefix}-action-${index}`;
+  }
+
+  /**
+   * Escapes the text and wraps the first case-insensitive occurrence of the
+   * last search query in a <mark>.
+   */
+  private highlight(text: string): string {
+    const query = this.lastQuery.toLowerCase();
+    const start = query ? text.toLowerCase().indexOf(query) : -1;
+    if (start < 0) return escapeHtml(text);
+
+    const end = start + query.length;
+    return `${escapeHtml(text.slice(0, start))}<mark class="location-search__match">${escapeHtml(
+      text.slice(start, end)
+    )}</mark>${escapeHtml(text.slice(end))}`;
+  }
+
+
+  private emitRecentRemoved(location: LocationSuggestion): void {
+    this.dispatchEvent(
+      new CustomEvent('recentRemoved', { detail: { location } })
+    );
   }
 
   private emitLocationSelected(location: LocationSuggestion): void {
@@ -0,0 +1,212 @@
+import type { AppNotification } from '../types/notifications';
+import type { NotificationSupport } from '../utils/notifications';
+import { formatDate, t } from '../i18n';
+import { escapeHtml } from '../utils/html';
+
+const MAX_NOTIFICATIONS = 50;
+
+/**
+ * Bell button with a popover listing notifications raised while the app is
+ * open. Used when browser notifications are unavailable or blocked; emits
+ * 'permissionRequested' when the user asks to switch them on.
+ */
+export class NotificationCenter extends EventTarget {
+  private container: HTMLElement;
+  private notifications: AppNotification[] = [];
+  private permission: NotificationSupport = 'default';
+  private toggleEl!: HTMLButtonElement;
+  private panelEl!: HTMLElement;
+  private boundHandleClickOutside: (e: MouseEvent) => void;
+  private boundHandleKeydown: (e: KeyboardEvent) => void;
+
+  constructor(container: HTMLElement) {
+    super();
+    this.container = container;
+    this.boundHandleClickOutside = this.handleClickOutside.bind(this);
+    this.boundHandleKeydown = this.handleKeydown.bind(this);
+  }
+
+  /**
+   * Renders the bell and its (initially closed) panel.
+   * @param permission - The browser's notification permission
+   */
+  render(permission: NotificationSupport = this.permission): void {
+    this.permission = permission;
+    this.destroyListeners();
+
+    this.container.innerHTML = `
+      <div class="notification-center">
+        <button
+          class="notification-center__toggle"
+          type="button"
+          aria-haspopup="true"
+          aria-expanded="false"
+          aria-controls="notification-center-panel"
+          title="${t('notifications.center')}"
+        >
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M18 8A6 6 0 0 0 6 8c0 7-3 9-3 9h18s-3-2-3-9"/>
+            <path d="M13.73 21a2 2 0 0 1-3.46 0"/>
+          </svg>
+          <span class="notification-center__badge" hidden></span>
+          <span class="sr-only notification-center__status" aria-live="polite"></span>
+        </button>
+        <div
+          class="notification-center__panel notification-center__panel--hidden"
+          id="notification-center-panel"
+          role="region"
+          aria-label="${t('notifications.center')}"
+        >
+          <div class="notification-center__permission"></div>
+          <div class="notification-center__list-wrapper"></div>
+          <button class="notification-center__clear" type="button">${t('notifications.clear')}</button>
+        </div>
+      </div>
+    `;
+
+    this.toggleEl = this.container.querySelector('.notification-center__toggle') as HTMLButtonElement;
+    this.panelEl = this.container.querySelector('.notification-center__panel') as HTMLElement;
+
+    this.toggleEl.addEventListener('click', () => {
+      this.setOpen(this.panelEl.classList.contains('notification-center__panel--hidden'));
+    });
+
+    this.panelEl.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('.notification-center__enable')) {
+        this.dispatchEvent(new CustomEvent('permissionRequested'));
+      } else if (target.closest('.notification-center__clear')) {
+        this.notifications = [];
+        this.renderList();
+      }
+    });
+
+    document.addEventListener('click', this.boundHandleClickOutside);
+    document.addEventListener('keydown', this.boundHandleKeydown);
+
+    this.renderPermission();
+    this.renderList();
+  }
+
+  /**
+   * Adds a notification to the top of the list, dropping the oldest beyond the limit.
+   */
+  add(title: string, body: string): void {
+    const createdAt = Date.now();
+    this.notifications = [
+      { id: `${createdAt}-${this.notifications.length}`, title, body, createdAt, read: this.isOpen() },
+      ...this.notifications,
+    ].slice(0, MAX_NOTIFICATIONS);
+    this.renderList();
+  }
+
+  /**
+   * Updates the browser permission the panel offers to change.
+   */
+  setPermission(permission: NotificationSupport): void {
+    this.permission = permission;
+    this.renderPermission();
+  }
+
+  /**
+   * Cleans up event listeners and DOM.
+   */
+  destroy(): void {
+    this.destroyListeners();
+    this.container.innerHTML = '';
+  }
+
+  private renderPermission(): void {
+    const el = this.container.querySelector('.notification-center__permission');
+    if (!el) return;
+
+    if (this.permission === 'default') {
+      el.innerHTML = `<button class="notification-center__enable" type="button">${t('notifications.enableBrowser')}</button>`;
+    } else if (this.permission === 'denied') {
+      el.innerHTML = `<p class="notification-center__note">${t('notifications.blocked')}</p>`;
+    } else {
+      el.innerHTML = '';
+    }
+  }
+
+  private renderList(): void {
+    const wrapper = this.container.querySelector('.notification-center__list-wrapper');
+    if (!wrapper) return;
+
+    if (this.notifications.length === 0) {
+      wrapper.innerHTML = `<p class="notification-center__empty">${t('notifications.centerEmpty')}</p>`;
+    } else {
+      wrapper.innerHTML = `
+        <ul class="notification-center__list">
+          ${this.notifications.map((notification) => this.renderNotification(notification)).join('')}
+        </ul>
+      `;
+    }
+
+    this.renderBadge();
+  }
+
+  private renderNotification(notification: AppNotification): string {
+    const time = formatDate(new Date(notification.createdAt), { hour: 'numeric', minute: '2-digit' });
+    return `
+      <li class="notification-center__item${notification.read ? '' : ' notification-center__item--unread'}">
+        <span class="notification-center__item-title">${escapeHtml(notification.title)}</span>
+        <span class="notification-center__item-body">${escapeHtml(notification.body)}</span>
+        <time class="notification-center__item-time" datetime="${new Date(notification.createdAt).toISOString()}">${time}</time>
+      </li>
+    `;
+  }
+
+  private renderBadge(): void {
+    const badge = this.container.querySelector<HTMLElement>('.notification-center__badge');
+    const status = this.container.querySelector('.notification-center__status');
+    const unread = this.notifications.filter((notification) => !notification.read).length;
+
+    if (badge) {
+      badge.hidden = unread === 0;
+      badge.textContent = unread > 9 ? '9+' : String(unread);
+    }
+    if (status) {
+      status.textContent = unread > 0 ? t('notifications.unread', { count: unread }) : '';
+    }
+  }
+
+  private handleClickOutside(e: MouseEvent): void {
+    if (!this.container.contains(e.target as Node)) {
+      this.setOpen(false);
+    }
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this.isOpen()) {
+      this.setOpen(false);
+      this.toggleEl.focus();
+    }
+  }
+
+  private isOpen(): boolean {
+    return this.panelEl !== undefined && !this.panelEl.classList.contains('notification-center__panel--hidden');
+  }
+
+  /**
+   * Opening the panel marks everything in it as read; the highlight stays
+   * until it is closed so new entries can still be told apart.
+   */
+  private setOpen(open: boolean): void {
+    const wasOpen = this.isOpen();
+    this.panelEl.classList.toggle('notification-center__panel--hidden', !open);
+    this.toggleEl.setAttribute('aria-expanded', String(open));
+
+    if (open && !wasOpen) {
+      this.notifications = this.notifications.map((notification) => ({ ...notification, read: true }));
+      this.renderBadge();
+    } else if (!open && wasOpen) {
+      this.renderList();
+    }
+  }
+
+  private destroyListeners(): void {
+    document.removeEventListener('click', this.boundHandleClickOutside);
+    document.removeEventListener('keydown', this.boundHandleKeydown);
+  }
+}
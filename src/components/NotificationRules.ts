@@ -0,0 +1,261 @@
+import type { AppState } from '../state/AppState';
+import type { NotificationRule, RuleMetric, RuleOperator, RulePeriod } from '../types/notifications';
+import { t } from '../i18n';
+import { getLocationKey } from '../utils/location';
+import {
+  DEFAULT_RULE_COOLDOWN_HOURS,
+  DEFAULT_RULE_HOURS,
+  MAX_RULE_HOURS,
+  RULE_COOLDOWN_OPTIONS_HOURS,
+  RULE_METRICS,
+  RULE_OPERATORS,
+  RULE_PERIODS,
+  createRuleId,
+  describeRule,
+} from '../utils/notificationRules';
+import { areUnitPreferencesEqual, toCelsius } from '../utils/units';
+import { escapeHtml } from '../utils/html';
+
+/**
+ * Lists the user's notification rules and offers a form for adding new ones.
+ * The list follows the rules, favorites and units in AppState; the form is
+ * left alone so a half-filled rule survives background updates. Emits
+ * 'ruleAdded', 'ruleRemoved' and 'ruleToggled' for the owner to apply.
+ */
+export class NotificationRules extends EventTarget {
+  private container: HTMLElement;
+  private state: AppState;
+  private unsubscribers: Array<() => void>;
+
+  constructor(container: HTMLElement, state: AppState) {
+    super();
+    this.container = container;
+    this.state = state;
+    this.unsubscribers = [
+      state.select((s) => s.notificationRules, () => this.renderList()),
+      state.select((s) => s.units, () => this.refreshUnits(), areUnitPreferencesEqual),
+      state.select((s) => s.favorites, () => this.renderLocationOptions()),
+    ];
+  }
+
+  /**
+   * Renders the rule list and an empty form, e.g. initially or after a
+   * language change.
+   */
+  render(): void {
+    const metricOptions = RULE_METRICS.map(
+      (metric) => `<option value="${metric}">${t(`notifications.metric.${metric}`)}</option>`
+    ).join('');
+    const operatorOptions = RULE_OPERATORS.map(
+      (operator) => `<option value="${operator}">${t(`notifications.operator.${operator}`)}</option>`
+    ).join('');
+    const periodOptions = RULE_PERIODS.map(
+      (period) => `<option value="${period}">${t(`notifications.periodOption.${period}`)}</option>`
+    ).join('');
+    const cooldownOptions = RULE_COOLDOWN_OPTIONS_HOURS.map(
+      (hours) =>
+        `<option value="${hours}"${hours === DEFAULT_RULE_COOLDOWN_HOURS ? ' selected' : ''}>${t('notifications.cooldownHours', { count: hours })}</option>`
+    ).join('');
+
+    this.container.innerHTML = `
+      <section class="notification-rules" aria-labelledby="notification-rules-title">
+        <h3 class="notification-rules__title" id="notification-rules-title">${t('notifications.rulesTitle')}</h3>
+        <div class="notification-rules__list-wrapper"></div>
+        <form class="notification-rules__form" aria-label="${t('notifications.newRule')}">
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.metric')}</span>
+            <select class="notification-rules__input" name="metric">${metricOptions}</select>
+          </label>
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.operator')}</span>
+            <select class="notification-rules__input" name="operator">${operatorOptions}</select>
+          </label>
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.threshold')}</span>
+            <span class="notification-rules__threshold">
+              <input class="notification-rules__input" name="threshold" type="number" step="any" required />
+              <span class="notification-rules__unit"></span>
+            </span>
+          </label>
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.period')}</span>
+            <select class="notification-rules__input" name="period">${periodOptions}</select>
+          </label>
+          <label class="notification-rules__field" data-field="hours" hidden>
+            <span class="notification-rules__label">${t('notifications.field.hours')}</span>
+            <input class="notification-rules__input" name="hours" type="number" min="1" max="${MAX_RULE_HOURS}" step="1" value="${DEFAULT_RULE_HOURS}" />
+          </label>
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.location')}</span>
+            <select class="notification-rules__input" name="location"></select>
+          </label>
+          <label class="notification-rules__field">
+            <span class="notification-rules__label">${t('notifications.field.cooldown')}</span>
+            <select class="notification-rules__input" name="cooldown">${cooldownOptions}</select>
+          </label>
+          <button class="notification-rules__add" type="submit">${t('notifications.addRule')}</button>
+        </form>
+      </section>
+    `;
+
+    this.renderList();
+    this.renderLocationOptions();
+    this.refreshUnits();
+    this.attachEventListeners();
+  }
+
+  /**
+   * Stops following state changes and removes the panel.
+   */
+  destroy(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.container.innerHTML = '';
+  }
+
+  private renderList(): void {
+    const wrapper = this.container.querySelector('.notification-rules__list-wrapper');
+    if (!wrapper) return;
+
+    const rules = this.state.notificationRules;
+    if (rules.length === 0) {
+      wrapper.innerHTML = `<p class="notification-rules__empty">${t('notifications.rulesEmpty')}</p>`;
+      return;
+    }
+
+    wrapper.innerHTML = `
+      <ul class="notification-rules__list">
+        ${rules.map((rule) => this.renderRule(rule)).join('')}
+      </ul>
+    `;
+  }
+
+  private renderRule(rule: NotificationRule): string {
+    const summary = describeRule(rule, this.state.units);
+    const text = rule.location ? t('notifications.ruleAt', { summary, location: rule.location.name }) : summary;
+
+    return `
+      <li class="notification-rules__item${rule.enabled ? '' : ' notification-rules__item--disabled'}">
+        <input
+          class="notification-rules__toggle"
+          type="checkbox"
+          data-id="${escapeHtml(rule.id)}"
+          aria-label="${escapeHtml(t('notifications.enableRule', { summary: text }))}"
+          ${rule.enabled ? 'checked' : ''}
+        />
+        <span class="notification-rules__summary">${escapeHtml(text)}</span>
+        <button
+          class="notification-rules__remove"
+          type="button"
+          data-id="${escapeHtml(rule.id)}"
+          aria-label="${escapeHtml(t('notifications.removeRule', { summary: text }))}"
+        >&times;</button>
+      </li>
+    `;
+  }
+
+  /**
+   * Fills the location picker with the favorites, keeping the selection
+   * when the chosen favorite is still there.
+   */
+  private renderLocationOptions(): void {
+    const select = this.container.querySelector<HTMLSelectElement>('select[name="location"]');
+    if (!select) return;
+
+    const selected = select.value;
+    const favorites = this.state.favorites
+      .map((fav) => {
+        const key = getLocationKey(fav);
+        return `<option value="${key}"${key === selected ? ' selected' : ''}>${escapeHtml(fav.name)}, ${escapeHtml(fav.country)}</option>`;
+      })
+      .join('');
+    select.innerHTML = `<option value="">${t('notifications.displayedLocation')}</option>${favorites}`;
+  }
+
+  /**
+   * Updates the list and the threshold unit after a unit or metric change.
+   */
+  private refreshUnits(): void {
+    this.renderList();
+
+    const metric = this.container.querySelector<HTMLSelectElement>('select[name="metric"]')?.value;
+    const unitEl = this.container.querySelector('.notification-rules__unit');
+    if (!unitEl) return;
+
+    if (metric === 'temperature') {
+      unitEl.textContent = `°${this.state.units.temperature}`;
+    } else {
+      unitEl.textContent = metric === 'chanceOfRain' ? '%' : '';
+    }
+  }
+
+  private attachEventListeners(): void {
+    const form = this.container.querySelector<HTMLFormElement>('.notification-rules__form');
+    const wrapper = this.container.querySelector('.notification-rules__list-wrapper');
+
+    form?.addEventListener('change', (e) => {
+      const target = e.target as HTMLElement;
+      if (target instanceof HTMLSelectElement && target.name === 'metric') {
+        this.refreshUnits();
+      }
+      if (target instanceof HTMLSelectElement && target.name === 'period') {
+        const hoursField = form.querySelector<HTMLElement>('[data-field="hours"]');
+        if (hoursField) {
+          hoursField.hidden = target.value !== 'nextHours';
+        }
+      }
+    });
+
+    form?.addEventListener('submit', (e) => {
+      e.preventDefault();
+      const rule = this.readRule(form);
+      if (!rule) return;
+
+      this.dispatchEvent(new CustomEvent('ruleAdded', { detail: { rule } }));
+      const threshold = form.elements.namedItem('threshold') as HTMLInputElement;
+      threshold.value = '';
+    });
+
+    wrapper?.addEventListener('change', (e) => {
+      const toggle = e.target as HTMLInputElement;
+      if (!toggle.classList.contains('notification-rules__toggle')) return;
+      this.dispatchEvent(
+        new CustomEvent('ruleToggled', { detail: { id: toggle.dataset.id, enabled: toggle.checked } })
+      );
+    });
+
+    wrapper?.addEventListener('click', (e) => {
+      const btn = (e.target as HTMLElement).closest<HTMLElement>('.notification-rules__remove');
+      if (!btn) return;
+      this.dispatchEvent(new CustomEvent('ruleRemoved', { detail: { id: btn.dataset.id } }));
+    });
+  }
+
+  /**
+   * Builds a rule from the form, converting the threshold from display units.
+   * Returns null if the threshold is not a number.
+   */
+  private readRule(form: HTMLFormElement): NotificationRule | null {
+    const data = new FormData(form);
+    const metric = data.get('metric') as RuleMetric;
+    const period = data.get('period') as RulePeriod;
+    const value = parseFloat(String(data.get('threshold')));
+    if (!Number.isFinite(value)) return null;
+
+    const hours = parseInt(String(data.get('hours')), 10);
+    const locationKey = String(data.get('location'));
+
+    return {
+      id: createRuleId(),
+      metric,
+      operator: data.get('operator') as RuleOperator,
+      threshold: metric === 'temperature' ? toCelsius(value, this.state.units.temperature) : value,
+      period,
+      hours: Number.isFinite(hours) ? Math.min(Math.max(hours, 1), MAX_RULE_HOURS) : DEFAULT_RULE_HOURS,
+      location: this.state.favorites.find((fav) => getLocationKey(fav) === locationKey) ?? null,
+      cooldownHours: parseInt(String(data.get('cooldown')), 10) || DEFAULT_RULE_COOLDOWN_HOURS,
+      enabled: true,
+      lastTriggeredAt: null,
+    };
+  }
+}
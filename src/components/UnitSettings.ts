@@ -0,0 +1,290 @@
+import type { UnitPreferences } from '../types/units';
+import type { Locale } from '../types/i18n';
+import type { ThemePreference } from '../types/theme';
+import { DEFAULT_UNIT_PREFERENCES, UNIT_OPTIONS } from '../utils/units';
+import { DEFAULT_THEME, THEME_OPTIONS, isThemePreference } from '../utils/theme';
+import { DEFAULT_LOCALE, LOCALE_NAMES, isLocale, t, type MessageKey } from '../i18n';
+
+const FIELD_LABELS: Record<keyof UnitPreferences, MessageKey> = {
+  temperature: 'settings.field.temperature',
+  windSpeed: 'settings.field.windSpeed',
+  pressure: 'settings.field.pressure',
+  distance: 'settings.field.distance',
+  precipitation: 'settings.field.precipitation',
+};
+
+/**
+ * Settings button with a popover panel for choosing the display unit
+ * of every measured quantity, the display language and the appearance.
+ */
+export class UnitSettings extends EventTarget {
+  private container: HTMLElement;
+  private units: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES };
+  private locale: Locale = DEFAULT_LOCALE;
+  private theme: ThemePreference = DEFAULT_THEME;
+  private ambient = false;
+  private toggleEl!: HTMLButtonElement;
+  private panelEl!: HTMLElement;
+  private boundHandleClickOutside: (e: MouseEvent) => void;
+  private boundHandleKeydown: (e: KeyboardEvent) => void;
+
+  constructor(container: HTMLElement) {
+    super();
+    this.container = container;
+    this.boundHandleClickOutside = this.handleClickOutside.bind(this);
+    this.boundHandleKeydown = this.handleKeydown.bind(this);
+  }
+
+  /**
+   * Renders the settings button and its (initially closed) panel.
+   * @param units - The preferences to show as selected
+   * @param locale - The language to show as selected
+   * @param theme - The theme to show as selected
+   * @param ambient - Whether the ambient background is switched on
+   */
+  render(
+    units: UnitPreferences,
+    locale: Locale = this.locale,
+    theme: ThemePreference = this.theme,
+    ambient: boolean = this.ambient
+  ): void {
+    this.units = { ...units };
+    this.locale = locale;
+    this.theme = theme;
+    this.ambient = ambient;
+
+    const fields = (Object.keys(FIELD_LABELS) as Array<keyof UnitPreferences>)
+      .map((key) => this.renderField(key))
+      .join('');
+
+    this.container.innerHTML = `
+      <div class="unit-settings">
+        <button
+          class="unit-settings__toggle"
+          type="button"
+          aria-haspopup="true"
+          aria-expanded="false"
+          aria-controls="unit-settings-panel"
+          title="${t('settings.units')}"
+        >
+          <svg viewBox="0 0 24 24" width="18" height="18" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="12" cy="12" r="3"/>
+            <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"/>
+          </svg>
+          <span class="sr-only">${t('settings.label')}</span>
+        </button>
+        <form class="unit-settings__panel unit-settings__panel--hidden" id="unit-settings-panel" aria-label="${t('settings.label')}">
+          ${fields}
+          ${this.renderLocaleField()}
+          ${this.renderAppearanceFields()}
+          <button class="unit-settings__reset" type="button">${t('settings.reset')}</button>
+        </form>
+      </div>
+    `;
+
+    this.toggleEl = this.container.querySelector('.unit-settings__toggle') as HTMLButtonElement;
+    this.panelEl = this.container.querySelector('.unit-settings__panel') as HTMLElement;
+
+    this.toggleEl.addEventListener('click', () => {
+      this.setOpen(this.panelEl.classList.contains('unit-settings__panel--hidden'));
+    });
+
+    this.panelEl.addEventListener('change', this.handleChange.bind(this));
+
+    this.container.querySelector('.unit-settings__reset')?.addEventListener('click', () => {
+      this.setUnits(DEFAULT_UNIT_PREFERENCES);
+      this.emitUnitsChanged();
+    });
+
+    document.addEventListener('click', this.boundHandleClickOutside);
+    document.addEventListener('keydown', this.boundHandleKeydown);
+  }
+
+  /**
+   * Syncs the selected options with externally changed preferences
+   * without emitting a change event.
+   * @param units - The preferences to show as selected
+   */
+  setUnits(units: UnitPreferences): void {
+    this.units = { ...units };
+    for (const key of Object.keys(FIELD_LABELS) as Array<keyof UnitPreferences>) {
+      const select = this.container.querySelector<HTMLSelectElement>(`select[name="${key}"]`);
+      if (select) {
+        select.value = this.units[key];
+      }
+    }
+  }
+
+  /**
+   * Syncs the selected language without emitting a change event. The panel
+   * is rendered again so its labels switch language; it stays open and
+   * keeps focus on the same control.
+   * @param locale - The language to show as selected
+   */
+  setLocale(locale: Locale): void {
+    this.locale = locale;
+    if (!this.panelEl) return;
+
+    const wasOpen = this.isOpen();
+    const focused = this.panelEl.contains(document.activeElement)
+      ? (document.activeElement as HTMLSelectElement).name
+      : '';
+
+    this.render(this.units);
+    if (wasOpen) {
+      this.setOpen(true);
+    }
+    if (focused) {
+      this.container.querySelector<HTMLElement>(`[name="${focused}"]`)?.focus();
+    }
+  }
+
+  /**
+   * Syncs the selected theme and ambient toggle without emitting a change event.
+   * @param theme - The theme to show as selected
+   * @param ambient - Whether the ambient background is switched on
+   */
+  setAppearance(theme: ThemePreference, ambient: boolean): void {
+    this.theme = theme;
+    this.ambient = ambient;
+    const select = this.container.querySelector<HTMLSelectElement>('select[name="theme"]');
+    if (select) {
+      select.value = theme;
+    }
+    const checkbox = this.container.querySelector<HTMLInputElement>('input[name="ambient"]');
+    if (checkbox) {
+      checkbox.checked = ambient;
+    }
+  }
+
+  /**
+   * Cleans up event listeners and DOM.
+   */
+  destroy(): void {
+    document.removeEventListener('click', this.boundHandleClickOutside);
+    document.removeEventListener('keydown', this.boundHandleKeydown);
+    this.container.innerHTML = '';
+  }
+
+  private renderField(key: keyof UnitPreferences): string {
+    const options = Object.entries(UNIT_OPTIONS[key])
+      .map(
+        ([value, label]) =>
+          `<option value="${value}"${this.units[key] === value ? ' selected' : ''}>${t(label)}</option>`
+      )
+      .join('');
+
+    return `
+      <label class="unit-settings__field">
+        <span class="unit-settings__label">${t(FIELD_LABELS[key])}</span>
+        <select class="unit-settings__select" name="${key}">
+          ${options}
+        </select>
+      </label>
+    `;
+  }
+
+  private renderLocaleField(): string {
+    const options = (Object.keys(LOCALE_NAMES) as Locale[])
+      .map(
+        (locale) =>
+          `<option value="${locale}" lang="${locale}"${this.locale === locale ? ' selected' : ''}>${LOCALE_NAMES[locale]}</option>`
+      )
+      .join('');
+
+    return `
+      <label class="unit-settings__field">
+        <span class="unit-settings__label">${t('settings.language')}</span>
+        <select class="unit-settings__select" name="locale">
+          ${options}
+        </select>
+      </label>
+    `;
+  }
+
+  private renderAppearanceFields(): string {
+    const options = (Object.keys(THEME_OPTIONS) as ThemePreference[])
+      .map(
+        (theme) =>
+          `<option value="${theme}"${this.theme === theme ? ' selected' : ''}>${t(THEME_OPTIONS[theme])}</option>`
+      )
+      .join('');
+
+    return `
+      <label class="unit-settings__field">
+        <span class="unit-settings__label">${t('settings.theme')}</span>
+        <select class="unit-settings__select" name="theme">
+          ${options}
+        </select>
+      </label>
+      <label class="unit-settings__checkbox">
+        <input type="checkbox" name="ambient"${this.ambient ? ' checked' : ''}>
+        <span>${t('settings.ambient')}</span>
+      </label>
+    `;
+  }
+
+  private handleChange(e: Event): void {
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
+    if (target instanceof HTMLInputElement && target.name === 'ambient') {
+      this.ambient = target.checked;
+      this.dispatchEvent(
+        new CustomEvent('ambientChanged', { detail: { enabled: this.ambient } })
+      );
+      return;
+    }
+
+    const select = target as HTMLSelectElement;
+    if (select.name === 'theme') {
+      if (!isThemePreference(select.value)) return;
+      this.theme = select.value;
+      this.dispatchEvent(
+        new CustomEvent('themeChanged', { detail: { theme: this.theme } })
+      );
+      return;
+    }
+
+    if (select.name === 'locale') {
+      if (!isLocale(select.value)) return;
+      this.locale = select.value;
+      this.dispatchEvent(
+        new CustomEvent('localeChanged', { detail: { locale: this.locale } })
+      );
+      return;
+    }
+
+    const key = select.name as keyof UnitPreferences;
+    if (!(key in FIELD_LABELS)) return;
+
+    this.units = { ...this.units, [key]: select.value };
+    this.emitUnitsChanged();
+  }
+
+  private handleClickOutside(e: MouseEvent): void {
+    if (!this.container.contains(e.target as Node)) {
+      this.setOpen(false);
+    }
+  }
+
+  private handleKeydown(e: KeyboardEvent): void {
+    if (e.key === 'Escape' && this.isOpen()) {
+      this.setOpen(false);
+      this.toggleEl.focus();
+    }
+  }
+
+  private isOpen(): boolean {
+    return this.panelEl !== undefined && !this.panelEl.classList.contains('unit-settings__panel--hidden');
+  }
+
+  private setOpen(open: boolean): void {
+    this.panelEl.classList.toggle('unit-settings__panel--hidden', !open);
+    this.toggleEl.setAttribute('aria-expanded', String(open));
+  }
+
+  private emitUnitsChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent('unitsChanged', { detail: { units: { ...this.units } } })
+    );
+  }
+}
@@ -1,46 +1,85 @@
+import { API_CONFIG } from '../config/api';
 import type { DayForecast } from '../types/weather';
+import type { AppState } from '../state/AppState';
+import { formatCalendarDate, formatPercent, formatRelativeDay, t } from '../i18n';
+import { getZonedDateTime } from '../utils/date';
+import { areUnitPreferencesEqual, formatTemperature, formatWindSpeed } from '../utils/units';
+
+// Longer forecasts switch from cards to a scrollable compact list
+const MAX_CARD_DAYS = 7;
 
 /**
  * Component to display a multi-day weather forecast with responsive layout,
- * temperature unit switching, and interactive day selection.
+ * temperature unit switching, a selectable forecast length, and interactive
+ * day selection.
  */
 export class WeatherForecast extends EventTarget {
   private container: HTMLElement;
-  private currentUnit: 'C' | 'F' = 'C';
+  private state: AppState;
   private currentForecast: DayForecast[] = [];
+  private timeZone: string | undefined;
+  /** The current date at the location, for "Today" and "Tomorrow" labels. */
+  private today = '';
+  private dayCount: number = API_CONFIG.DEFAULT_FORECAST_DAYS;
+  private maxDays = Infinity;
+  private unsubscribeUnits: () => void;
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, state: AppState) {
     super();
     this.container = container;
+    this.state = state;
+    this.unsubscribeUnits = state.select(
+      (s) => s.units,
+      () => {
+        if (this.currentForecast.length > 0) {
+          this.render(this.currentForecast, this.timeZone);
+        }
+      },
+      areUnitPreferencesEqual
+    );
+  }
+
+  /**
+   * Sets the forecast length shown in the range picker and used for loading
+   * skeletons. Takes effect on the next render.
+   * @param days - The selected number of days
+   * @param maxDays - The most days the provider supports; longer options are disabled
+   */
+  setDayCount(days: number, maxDays: number = Infinity): void {
+    this.dayCount = days;
+    this.maxDays = maxDays;
   }
 
   /**
-   * Renders the forecast data into the container.
+   * Renders the forecast data into the container, in the units currently
+   * selected in AppState.
    * @param forecast - Array of daily forecast data
-   * @param unit - Temperature unit ('C' for Celsius, 'F' for Fahrenheit)
+   * @param timeZone - The location's IANA time zone; defaults to the browser's
    */
-  render(forecast: DayForecast[], unit: 'C' | 'F' = 'C'): void {
+  render(forecast: DayForecast[], timeZone?: string): void {
     this.currentForecast = forecast;
-    this.currentUnit = unit;
+    this.timeZone = timeZone;
+    this.today = getZonedDateTime(timeZone).slice(0, 10);
 
     if (forecast.length === 0) {
       this.container.innerHTML = `
         <div class="weather-forecast">
-          <p class="weather-forecast__empty">No forecast data available</p>
+          <p class="weather-forecast__empty">${t('forecast.empty')}</p>
         </div>
       `;
       return;
     }
 
-    const cards = forecast
-      .map((day, index) => this.renderCard(day, index))
+    const compact = forecast.length > MAX_CARD_DAYS;
+    const items = forecast
+      .map((day, index) => (compact ? this.renderRow(day, index) : this.renderCard(day, index)))
       .join('');
 
     this.container.innerHTML = `
       <div class="weather-forecast">
-        <h3 class="weather-forecast__title">Forecast</h3>
-        <div class="weather-forecast__grid">
-          ${cards}
+        ${this.renderHeader()}
+        <div class="${compact ? 'weather-forecast__list' : 'weather-forecast__grid'}">
+          ${items}
         </div>
       </div>
     `;
@@ -52,36 +91,76 @@ export class WeatherForecast extends EventTarget {
    * Displays a loading skeleton in the container.
    */
   showLoading(): void {
-    const skeletons = Array.from({ length: 5 })
-      .map(
-        () => `
+    this.currentForecast = [];
+    const count = Math.min(this.dayCount, this.maxDays);
+    const compact = count > MAX_CARD_DAYS;
+    const skeleton = compact
+      ? `
+        <div class="weather-forecast__row weather-forecast__row--skeleton">
+          <div class="skeleton skeleton--date"></div>
+          <div class="skeleton skeleton--condition"></div>
+          <div class="skeleton skeleton--temp"></div>
+        </div>
+      `
+      : `
         <div class="weather-forecast__card weather-forecast__card--skeleton">
           <div class="skeleton skeleton--date"></div>
           <div class="skeleton skeleton--icon"></div>
           <div class="skeleton skeleton--temp"></div>
           <div class="skeleton skeleton--condition"></div>
         </div>
-      `
-      )
-      .join('');
+      `;
+    const skeletons = Array.from({ length: count }, () => skeleton).join('');
 
     this.container.innerHTML = `
       <div class="weather-forecast">
-        <h3 class="weather-forecast__title">Forecast</h3>
-        <div class="weather-forecast__grid">
+        ${this.renderHeader()}
+        <div class="${compact ? 'weather-forecast__list' : 'weather-forecast__grid'}">
           ${skeletons}
         </div>
       </div>
     `;
+
+    this.attachRangeListener();
+  }
+
+  /**
+   * Stops following unit changes.
+   */
+  destroy(): void {
+    this.unsubscribeUnits();
+  }
+
+  private renderHeader(): string {
+    // Show the length actually loaded when the selected one is not available
+    const available = API_CONFIG.FORECAST_DAY_OPTIONS.filter((days) => days <= this.maxDays);
+    const selected = available.filter((days) => days <= this.dayCount).pop() ?? this.dayCount;
+    const options = API_CONFIG.FORECAST_DAY_OPTIONS.map(
+      (days) => `
+        <option value="${days}"${days === selected ? ' selected' : ''}${days > this.maxDays ? ' disabled' : ''}>
+          ${t('forecast.days', { count: days })}
+        </option>
+      `
+    ).join('');
+
+    return `
+      <div class="weather-forecast__header">
+        <h3 class="weather-forecast__title">${t('forecast.title')}</h3>
+        <label class="weather-forecast__range">
+          <span class="sr-only">${t('forecast.length')}</span>
+          <select class="weather-forecast__range-select">
+            ${options}
+          </select>
+        </label>
+      </div>
+    `;
   }
 
   private renderCard(day: DayForecast, index: number): string {
-    const date = new Date(day.date + 'T00:00:00');
-    const dayName = index === 0 ? 'Today' : date.toLocaleDateString('en-US', { weekday: 'short' });
-    const dateStr = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-    const maxTemp = this.convertTemp(day.maxTemp);
-    const minTemp = this.convertTemp(day.minTemp);
-    const unitLabel = this.currentUnit === 'C' ? '°C' : '°F';
+    const dayName = formatRelativeDay(day.date, this.today);
+    const dateStr = formatCalendarDate(day.date, { month: 'short', day: 'numeric' });
+    const maxTemp = formatTemperature(day.maxTemp, this.state.units);
+    const minTemp = formatTemperature(day.minTemp, this.state.units);
 
     return `
       <button class="weather-forecast__card" data-index="${index}" type="button">
@@ -94,8 +173,8 @@ export class WeatherForecast extends EventTarget {
           loading="lazy"
         />
         <div class="weather-forecast__temps">
-          <span class="weather-forecast__temp-high">${Math.round(maxTemp)}${unitLabel}</span>
-          <span class="weather-forecast__temp-low">${Math.round(minTemp)}${unitLabel}</span>
+          <span class="weather-forecast__temp-high">${maxTemp}</span>
+          <span class="weather-forecast__temp-low">${minTemp}</span>
         </div>
         <span class="weather-forecast__condition">${day.condition}</span>
         <div class="weather-forecast__details">
@@ -103,28 +182,54 @@ export class WeatherForecast extends EventTarget {
             <svg viewBox="0 0 24 24" width="14" height="14" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M12 2.69l5.66 5.66a8 8 0 1 1-11.31 0z"/>
             </svg>
-            ${day.humidity}%
+            ${formatPercent(day.humidity)}
           </span>
           <span class="weather-forecast__detail">
             <svg viewBox="0 0 24 24" width="14" height="14" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M9.59 4.59A2 2 0 1 1 11 8H2m10.59 11.41A2 2 0 1 0 14 16H2m15.73-8.27A2.5 2.5 0 1 1 19.5 12H2"/>
             </svg>
-            ${Math.round(day.windSpeed)} km/h
+            ${formatWindSpeed(day.windSpeed, this.state.units)}
           </span>
         </div>
       </button>
     `;
   }
 
-  private convertTemp(tempC: number): number {
-    if (this.currentUnit === 'F') {
-      return (tempC * 9) / 5 + 32;
-    }
-    return tempC;
+  private renderRow(day: DayForecast, index: number): string {
+    const dayName = formatRelativeDay(day.date, this.today);
+    const dateStr = formatCalendarDate(day.date, { month: 'short', day: 'numeric' });
+
+    return `
+      <button class="weather-forecast__row" data-index="${index}" type="button">
+        <span class="weather-forecast__row-day">
+          <span class="weather-forecast__day">${dayName}</span>
+          <span class="weather-forecast__date">${dateStr}</span>
+        </span>
+        <img class="weather-forecast__row-icon" src="${day.icon}" alt="" loading="lazy" />
+        <span class="weather-forecast__condition">${day.condition}</span>
+        <span class="weather-forecast__row-rain" title="${t('forecast.chanceOfRain')}">${formatPercent(day.chanceOfRain)}</span>
+        <span class="weather-forecast__temps">
+          <span class="weather-forecast__temp-high">${formatTemperature(day.maxTemp, this.state.units, { unitLabel: false })}</span>
+          <span class="weather-forecast__temp-low">${formatTemperature(day.minTemp, this.state.units, { unitLabel: false })}</span>
+        </span>
+      </button>
+    `;
+  }
+
+  private attachRangeListener(): void {
+    const select = this.container.querySelector<HTMLSelectElement>('.weather-forecast__range-select');
+    select?.addEventListener('change', () => {
+      const days = parseInt(select.value, 10);
+      this.dispatchEvent(
+        new CustomEvent('daysChanged', { detail: { days } })
+      );
+    });
   }
 
   private attachEventListeners(): void {
-    this.container.querySelectorAll('.weather-forecast__card:not(.weather-forecast__card--skeleton)').forEach((card) => {
+    this.attachRangeListener();
+
+    this.container.querySelectorAll('.weather-forecast__card[data-index], .weather-forecast__row[data-index]').forEach((card) => {
       card.addEventListener('click', (e) => {
         const index = parseInt((e.currentTarget as HTMLElement).dataset.index!, 10);
         const day = this.currentForecast[index];
@@ -0,0 +1,146 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WeatherApiResponse } from '../types/weatherApi';
+import type { UnitPreferences } from '../types/units';
+import { AppState } from '../state/AppState';
+import { transformWeatherApiHistory, transformWeatherApiResponse } from '../services/providers/weatherApiProvider';
+import { DEFAULT_UNIT_PREFERENCES } from '../utils/units';
+import { CurrentWeather } from './CurrentWeather';
+import { DayDetail } from './DayDetail';
+import { FavoritesDashboard } from './FavoritesDashboard';
+import { ForecastChart } from './ForecastChart';
+import { HistoryView } from './HistoryView';
+import { HourlyForecast } from './HourlyForecast';
+import { WeatherForecast } from './WeatherForecast';
+import forecastFixture from '../services/providers/__fixtures__/weatherapi-forecast.json';
+
+const forecast: WeatherApiResponse = forecastFixture;
+const data = transformWeatherApiResponse(forecast);
+const history = transformWeatherApiHistory(forecast);
+
+const FAHRENHEIT: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES, temperature: 'F' };
+
+// AppState notifies subscribers in a microtask
+const flush = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+function mount(state: AppState) {
+  const containers = {
+    current: document.createElement('div'),
+    hourly: document.createElement('div'),
+    forecast: document.createElement('div'),
+    chart: document.createElement('div'),
+    dayDetail: document.createElement('div'),
+    favorites: document.createElement('div'),
+    history: document.createElement('div'),
+  };
+  Object.values(containers).forEach((container) => document.body.appendChild(container));
+
+  const components = {
+    current: new CurrentWeather(containers.current, state),
+    hourly: new HourlyForecast(containers.hourly, state),
+    forecast: new WeatherForecast(containers.forecast, state),
+    chart: new ForecastChart(containers.chart, state),
+    dayDetail: new DayDetail(containers.dayDetail, state),
+    favorites: new FavoritesDashboard(containers.favorites, state),
+    history: new HistoryView(containers.history, state),
+  };
+
+  components.current.render(data);
+  components.hourly.render(data.forecast);
+  components.forecast.render(data.forecast, data.location.tzId);
+  components.chart.render(data.forecast, data.location.tzId);
+  components.dayDetail.open(data.forecast, 0);
+  components.favorites.render([
+    {
+      location: { name: 'London', country: 'United Kingdom', region: 'City of London', lat: 51.52, lon: -0.11 },
+      data,
+      status: 'ready',
+    },
+  ]);
+  components.history.render(history);
+
+  return { containers, components };
+}
+
+/**
+ * The chart shows temperatures with their unit only in its tooltip, which
+ * opens when the chart gains focus. Redraws close it again.
+ */
+function openChartTooltip(container: HTMLElement): void {
+  container.querySelector('.forecast-chart__svg')?.dispatchEvent(new FocusEvent('focus'));
+}
+
+function expectTemperatureUnit(containers: Record<string, HTMLElement>, unit: 'C' | 'F'): void {
+  const other = unit === 'C' ? 'F' : 'C';
+  for (const [name, container] of Object.entries(containers)) {
+    expect(container.textContent, name).toContain(`°${unit}`);
+    expect(container.textContent, name).not.toContain(`°${other}`);
+  }
+}
+
+describe('unit preferences', () => {
+  let mounted: ReturnType<typeof mount> | null = null;
+
+  beforeEach(() => {
+    // Only Date is faked so AppState's microtasks still run
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T07:30:00Z'));
+    // jsdom does no layout; the chart needs a width to draw
+    vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(600);
+  });
+
+  afterEach(() => {
+    if (mounted) {
+      Object.values(mounted.components).forEach((component) => component.destroy());
+      mounted = null;
+    }
+    document.body.innerHTML = '';
+    localStorage.clear();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('renders every component in the saved units after a reload', () => {
+    const saved = new AppState();
+    saved.setUnits(FAHRENHEIT);
+    saved.saveToStorage();
+
+    const state = new AppState();
+    state.loadFromStorage();
+    mounted = mount(state);
+    openChartTooltip(mounted.containers.chart);
+
+    expect(mounted.containers.current.querySelector('.current-weather__unit-toggle')?.textContent).toBe('°F');
+    expectTemperatureUnit(mounted.containers, 'F');
+  });
+
+  it('re-renders every component when the units change in the state', async () => {
+    const state = new AppState();
+    mounted = mount(state);
+    openChartTooltip(mounted.containers.chart);
+    expectTemperatureUnit(mounted.containers, 'C');
+
+    state.setUnits(FAHRENHEIT);
+    await flush();
+    openChartTooltip(mounted.containers.chart);
+
+    expectTemperatureUnit(mounted.containers, 'F');
+  });
+
+  it('leaves the current conditions unit to the state when the toggle is clicked', async () => {
+    const state = new AppState();
+    mounted = mount(state);
+    const { current } = mounted.components;
+    const toggled = vi.fn(() => state.setUnits(FAHRENHEIT));
+    current.addEventListener('unitToggled', toggled);
+
+    mounted.containers.current.querySelector<HTMLButtonElement>('.current-weather__unit-toggle')?.click();
+    expect(toggled).toHaveBeenCalledOnce();
+    expectTemperatureUnit({ current: mounted.containers.current }, 'C');
+
+    await flush();
+    openChartTooltip(mounted.containers.chart);
+
+    expectTemperatureUnit(mounted.containers, 'F');
+  });
+});
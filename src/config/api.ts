@@ -1,14 +1,40 @@
+export type WeatherProviderId = 'weatherapi' | 'open-meteo';
+
 export const API_CONFIG = {
-  BASE_URL: 'https://api.weatherapi.com/v1',
-  API_KEY: 'your-api-key-here', // Replace with actual API key
-  ENDPOINTS: {
-    CURRENT: '/current.json',
-    FORECAST: '/forecast.json',
-    SEARCH: '/search.json'
+  // Selected via VITE_WEATHER_PROVIDER; falls back to WeatherAPI.com
+  PROVIDER: (import.meta.env.VITE_WEATHER_PROVIDER || 'weatherapi') as WeatherProviderId,
+  REQUEST_TIMEOUT_MS: 10000,
+  // Forecast lengths offered to the user; longer ones are disabled when the provider cannot serve them
+  FORECAST_DAY_OPTIONS: [3, 7, 10, 14],
+  DEFAULT_FORECAST_DAYS: 7,
+  WEATHER_API: {
+    BASE_URL: 'https://api.weatherapi.com/v1',
+    API_KEY: import.meta.env.VITE_WEATHER_API_KEY || '',
+    ENDPOINTS: {
+      CURRENT: '/current.json',
+      FORECAST: '/forecast.json',
+      HISTORY: '/history.json',
+      SEARCH: '/search.json'
+    },
+    // Paid plans; a key's actual limit is learned from its first short forecast
+    MAX_FORECAST_DAYS: 14,
+    DEFAULT_PARAMS: {
+      aqi: 'yes',
+      alerts: 'yes'
+    }
   },
-  DEFAULT_PARAMS: {
-    days: 5,
-    aqi: 'no',
-    alerts: 'no'
+  OPEN_METEO: {
+    BASE_URL: 'https://api.open-meteo.com/v1',
+    GEOCODING_URL: 'https://geocoding-api.open-meteo.com/v1',
+    AIR_QUALITY_URL: 'https://air-quality-api.open-meteo.com/v1',
+    ARCHIVE_URL: 'https://archive-api.open-meteo.com/v1',
+    ENDPOINTS: {
+      FORECAST: '/forecast',
+      ARCHIVE: '/archive',
+      SEARCH: '/search',
+      AIR_QUALITY: '/air-quality'
+    },
+    SEARCH_RESULT_COUNT: 5,
+    MAX_FORECAST_DAYS: 16
   }
-} as const;
\ No newline at end of file
+} as const;
@@ -0,0 +1,13 @@
+export const CACHE_CONFIG = {
+  // How long a response is served without revalidation
+  TTL_MS: {
+    CURRENT: 5 * 60 * 1000,
+    FORECAST: 10 * 60 * 1000,
+    SEARCH: 60 * 60 * 1000,
+    // Past observations rarely change once published
+    HISTORY: 24 * 60 * 60 * 1000
+  },
+  // How long past its TTL a response may still be served while revalidating
+  MAX_STALE_MS: 60 * 60 * 1000,
+  MAX_ENTRIES: 50
+} as const;
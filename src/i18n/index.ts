@@ -0,0 +1,129 @@
+import type { Locale, Message, MessageParams } from '../types/i18n';
+import { addDays } from '../utils/date';
+import { en, type MessageKey, type Messages } from './locales/en';
+import { de } from './locales/de';
+import { es } from './locales/es';
+import { ja } from './locales/ja';
+
+export type { MessageKey } from './locales/en';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/**
+ * Supported locales with their names written in that language, for the
+ * language picker.
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  es: 'Español',
+  ja: '日本語',
+};
+
+const CATALOGS: Record<Locale, Messages> = { en, de, es, ja };
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+/**
+ * Switches the locale used by t() and the formatting helpers. Components
+ * pick up the change the next time they render.
+ */
+export function setCurrentLocale(locale: Locale): void {
+  currentLocale = locale;
+}
+
+export function getCurrentLocale(): Locale {
+  return currentLocale;
+}
+
+export function isLocale(value: unknown): value is Locale {
+  // Own keys only: `in` would also accept inherited names such as "constructor"
+  return typeof value === 'string' && Object.keys(CATALOGS).includes(value);
+}
+
+/**
+ * Picks the first supported locale from the browser's preferred languages,
+ * matching on the language subtag so "de-AT" selects German.
+ */
+export function detectLocale(languages: readonly string[] = getBrowserLanguages()): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocale(primary)) {
+      return primary;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Looks up a message in the current locale, falling back to English, and
+ * fills its {placeholders}. Plural messages choose their form from
+ * params.count; numeric params are formatted for the locale.
+ * @param key - The message key
+ * @param params - Values for the message's placeholders
+ */
+export function t(key: MessageKey, params: MessageParams = {}): string {
+  const message = selectForm(CATALOGS[currentLocale][key] ?? en[key], params.count);
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
+
+/**
+ * Formats a number with the current locale's separators.
+ */
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(currentLocale, options).format(value);
+}
+
+/**
+ * Formats a whole-number percentage such as a humidity reading, e.g. "65%" or "65 %".
+ * @param value - The percentage, 0–100
+ */
+export function formatPercent(value: number): string {
+  return formatNumber(value / 100, { style: 'percent', maximumFractionDigits: 0 });
+}
+
+/**
+ * Formats a date, a time or both in the current locale.
+ */
+export function formatDate(date: Date, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(currentLocale, options).format(date);
+}
+
+/**
+ * Formats a calendar date such as a forecast day. The date is not an instant,
+ * so it is formatted in UTC to keep the viewer's time zone from shifting it.
+ * @param date - The day as "YYYY-MM-DD"
+ */
+export function formatCalendarDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return formatDate(new Date(`${date}T12:00:00Z`), { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Names a forecast day "Today", "Tomorrow" or by its weekday.
+ * @param date - The day as "YYYY-MM-DD"
+ * @param today - The current date at the location as "YYYY-MM-DD"
+ * @param weekday - Weekday style for other days
+ */
+export function formatRelativeDay(date: string, today: string, weekday: 'short' | 'long' = 'short'): string {
+  if (date === today) return t('common.today');
+  if (date === addDays(today, 1)) return t('common.tomorrow');
+  return formatCalendarDate(date, { weekday });
+}
+
+function selectForm(message: Message, count: string | number | undefined): string {
+  if (typeof message === 'string') return message;
+  if (typeof count !== 'number') return message.other;
+
+  const category = new Intl.PluralRules(currentLocale).select(count);
+  return message[category] ?? message.other;
+}
+
+function getBrowserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language];
+}
@@ -0,0 +1,238 @@
+import type { Messages } from './en';
+
+export const de: Messages = {
+  'app.title': 'Wetter',
+  'app.offline': 'Du bist offline. Die Wetterdaten sind möglicherweise veraltet.',
+  'app.staleOffline': 'Du bist offline. Wetter von {time} Uhr.',
+  'app.staleError': 'Aktualisierung fehlgeschlagen. Wetter von {time} Uhr.',
+  'app.storageFull':
+    'Deine Einstellungen konnten nicht gespeichert werden, weil der Browserspeicher voll ist.',
+
+  'common.today': 'Heute',
+  'common.tomorrow': 'Morgen',
+  'common.saveFavorite': '{name} zu Favoriten hinzufügen',
+  'common.hourly': 'Stündlich',
+  'common.precipitation': 'Niederschlag',
+  'common.chanceOfPrecipitation': 'Niederschlagswahrscheinlichkeit',
+  'common.sunrise': 'Sonnenaufgang',
+  'common.sunset': 'Sonnenuntergang',
+  'common.highLow': 'Max. {high} / Min. {low}',
+
+  'current.toggleUnit': 'Temperatureinheit wechseln',
+  'current.localTime': 'Ortszeit: {time}',
+  'current.humidity': 'Luftfeuchtigkeit',
+  'current.wind': 'Wind',
+  'current.pressure': 'Luftdruck',
+  'current.visibility': 'Sichtweite',
+  'current.uvIndex': 'UV-Index',
+  'current.apiKeyHint':
+    'Setze {variable} in deiner {file}-Datei auf einen gültigen Schlüssel und starte die App neu.',
+  'current.notFoundHint': 'Prüfe die Schreibweise oder suche nach einer Stadt in der Nähe.',
+  'current.didYouMean': 'Meintest du:',
+  'current.quotaHint': 'Das API-Kontingent ist aufgebraucht. Bitte versuche es später erneut.',
+  'current.retryAfter': {
+    one: 'Du kannst es in {count} Sekunde erneut versuchen.',
+    other: 'Du kannst es in {count} Sekunden erneut versuchen.',
+  },
+  'current.retry': 'Erneut versuchen',
+  'current.sameAsLastYear': 'Gleiche Höchsttemperatur wie an diesem Tag im Vorjahr',
+  'current.warmerThanLastYear': '{difference}° wärmer als an diesem Tag im Vorjahr',
+  'current.colderThanLastYear': '{difference}° kälter als an diesem Tag im Vorjahr',
+  'current.lastYearDetail': '{summary} (Höchstwert {high}, {condition})',
+
+  'search.placeholder': 'Stadt suchen...',
+  'search.label': 'Nach einer Stadt suchen',
+  'search.useCurrentLocation': 'Aktuellen Standort verwenden',
+  'search.follow': 'Meinem Standort folgen',
+  'search.stopFollowing': 'Meinem Standort nicht mehr folgen',
+  'search.followingStarted': 'Dein Standort wird verfolgt',
+  'search.followingStopped': 'Dein Standort wird nicht mehr verfolgt',
+  'search.geolocationUnsupported': 'Dein Browser unterstützt keine Standortbestimmung.',
+  'search.followFailed': 'Dein Standort kann nicht verfolgt werden. Bitte prüfe die Berechtigungen.',
+  'search.locateFailed': 'Dein Standort konnte nicht ermittelt werden. Bitte prüfe die Berechtigungen.',
+  'search.detecting': 'Standort wird ermittelt...',
+  'search.searching': 'Suche läuft...',
+  'search.noResults': 'Keine Orte gefunden',
+  'search.resultsFound': {
+    one: '{count} Ort gefunden. Mit den Pfeiltasten auswählen.',
+    other: '{count} Orte gefunden. Mit den Pfeiltasten auswählen.',
+  },
+  'search.failed': 'Die Ortssuche ist fehlgeschlagen. Bitte versuche es erneut.',
+  'search.suggestions': 'Ortsvorschläge',
+  'search.recent': 'Zuletzt gesucht',
+  'search.recentCount': {
+    one: '{count} letzte Suche',
+    other: '{count} letzte Suchen',
+  },
+  'search.clearHistory': 'Verlauf löschen',
+  'search.removeRecent': '{name} aus den letzten Suchen entfernen',
+
+  'forecast.title': 'Vorhersage',
+  'forecast.length': 'Vorhersagezeitraum',
+  'forecast.days': {
+    one: '{count} Tag',
+    other: '{count} Tage',
+  },
+  'forecast.empty': 'Keine Vorhersagedaten verfügbar',
+  'forecast.chanceOfRain': 'Regenwahrscheinlichkeit',
+
+  'chart.title': 'Temperatur & Niederschlag',
+  'chart.label': {
+    one: 'Temperatur- und Niederschlagsdiagramm für den nächsten Tag. Mit den Pfeiltasten links und rechts durch die Stunden wechseln.',
+    other: 'Temperatur- und Niederschlagsdiagramm für die nächsten {count} Tage. Mit den Pfeiltasten links und rechts durch die Stunden wechseln.',
+  },
+  'chart.chanceOfPrecipitation': '{percent} Niederschlagswahrscheinlichkeit',
+
+  'hourly.title': {
+    one: 'Nächste Stunde',
+    other: 'Nächste {count} Stunden',
+  },
+  'hourly.label': 'Stündliche Vorhersage',
+  'hourly.now': 'Jetzt',
+  'hourly.feelsLike': 'Gefühlt {temperature}',
+
+  'dayDetail.previous': 'Vorheriger Tag',
+  'dayDetail.next': 'Nächster Tag',
+  'dayDetail.close': 'Tagesdetails schließen',
+  'dayDetail.moonPhase': 'Mondphase',
+  'dayDetail.chanceOfSnow': 'Schneewahrscheinlichkeit',
+  'dayDetail.maxUv': 'Max. UV',
+  'dayDetail.hoursEmpty': 'Keine stündlichen Daten verfügbar',
+  'dayDetail.hoursLabel': 'Stündliche Übersicht',
+
+  'history.title': 'Rückblick',
+  'history.date': 'Datum',
+  'history.hint': 'Wähle ein Datum, um das an diesem Tag beobachtete Wetter zu sehen.',
+  'history.maxWind': 'Max. Wind',
+  'history.sunriseSunset': 'Sonnenaufgang / -untergang',
+  'history.hoursCaption': 'Stündliche Beobachtungen',
+  'history.time': 'Zeit',
+  'history.temperature': 'Temp.',
+  'history.feelsLike': 'Gefühlt',
+  'history.conditions': 'Wetterlage',
+
+  'airQuality.title': 'Luftqualität',
+  'airQuality.category.good': 'Gut',
+  'airQuality.category.moderate': 'Mäßig',
+  'airQuality.category.sensitive': 'Ungesund für empfindliche Gruppen',
+  'airQuality.category.unhealthy': 'Ungesund',
+  'airQuality.category.very-unhealthy': 'Sehr ungesund',
+  'airQuality.category.hazardous': 'Gefährlich',
+  'airQuality.guidance.good':
+    'Die Luftqualität ist zufriedenstellend. Genieße deine gewohnten Aktivitäten im Freien.',
+  'airQuality.guidance.moderate':
+    'Ungewöhnlich empfindliche Menschen sollten lange oder schwere Anstrengung im Freien einschränken.',
+  'airQuality.guidance.sensitive':
+    'Menschen mit Asthma, Herz- oder Lungenerkrankungen, Kinder und ältere Menschen sollten lange Anstrengung im Freien begrenzen und ihr Notfallmedikament bereithalten.',
+  'airQuality.guidance.unhealthy':
+    'Alle sollten lange Anstrengung im Freien reduzieren. Empfindliche Gruppen sollten sie meiden und möglichst drinnen bleiben.',
+  'airQuality.guidance.very-unhealthy':
+    'Gesundheitswarnung: Alle können Auswirkungen spüren. Vermeide Anstrengung im Freien und halte die Fenster geschlossen.',
+  'airQuality.guidance.hazardous':
+    'Gesundheitswarnung vor Notfallbedingungen. Alle sollten drinnen bleiben und körperliche Aktivität vermeiden.',
+  'airQuality.epaValue': 'US-EPA-Index {index}: {category}',
+  'airQuality.indices': 'US-EPA-Index {epa} · UK-DEFRA-Index {defra} ({band})',
+  'airQuality.defraBand.low': 'Niedrig',
+  'airQuality.defraBand.moderate': 'Mäßig',
+  'airQuality.defraBand.high': 'Hoch',
+  'airQuality.defraBand.veryHigh': 'Sehr hoch',
+  'airQuality.footnote': 'Konzentrationen in µg/m³',
+
+  'alerts.label': 'Wetterwarnungen',
+  'alerts.severity.extreme': 'Extrem',
+  'alerts.severity.severe': 'Schwer',
+  'alerts.severity.moderate': 'Mäßig',
+  'alerts.severity.minor': 'Gering',
+  'alerts.severity.unknown': 'Warnung',
+  'alerts.dismiss': 'Warnung „{event}“ ausblenden',
+  'alerts.details': 'Details',
+  'alerts.until': 'Bis {time}',
+
+  'favorites.title': 'Favoriten',
+  'favorites.unavailable': 'Nicht verfügbar',
+  'favorites.reorder': '{name} verschieben. Mit den Pfeiltasten bewegen.',
+  'favorites.remove': '{name} aus den Favoriten entfernen',
+
+  'settings.units': 'Einheiten',
+  'settings.label': 'Einheiten-Einstellungen',
+  'settings.language': 'Sprache',
+  'settings.reset': 'Auf Standard zurücksetzen',
+  'settings.theme': 'Design',
+  'settings.ambient': 'Hintergrund an das Wetter anpassen',
+  'settings.field.temperature': 'Temperatur',
+  'settings.field.windSpeed': 'Windgeschwindigkeit',
+  'settings.field.pressure': 'Luftdruck',
+  'settings.field.distance': 'Entfernung',
+  'settings.field.precipitation': 'Niederschlag',
+
+  'theme.auto': 'System',
+  'theme.light': 'Hell',
+  'theme.dark': 'Dunkel',
+  'theme.high-contrast': 'Hoher Kontrast',
+
+  'units.temperature.C': 'Celsius (°C)',
+  'units.temperature.F': 'Fahrenheit (°F)',
+  'units.windSpeed.kmh': 'km/h',
+  'units.windSpeed.mph': 'mph',
+  'units.windSpeed.ms': 'm/s',
+  'units.windSpeed.kn': 'Knoten',
+  'units.windSpeed.bft': 'Beaufort',
+  'units.pressure.hPa': 'hPa',
+  'units.pressure.inHg': 'inHg',
+  'units.pressure.mmHg': 'mmHg',
+  'units.distance.km': 'Kilometer',
+  'units.distance.mi': 'Meilen',
+  'units.precipitation.mm': 'Millimeter',
+  'units.precipitation.in': 'Zoll',
+
+  'notifications.title': 'Wetter in {location}',
+  'notifications.triggered': '{summary} ({value})',
+  'notifications.ruleSummary': '{metric} {period} {operator} {threshold}',
+  'notifications.ruleAt': '{summary} in {location}',
+  'notifications.metric.temperature': 'Temperatur',
+  'notifications.metric.chanceOfRain': 'Regenwahrscheinlichkeit',
+  'notifications.metric.uvIndex': 'UV-Index',
+  'notifications.operator.<': 'unter',
+  'notifications.operator.<=': 'höchstens',
+  'notifications.operator.>': 'über',
+  'notifications.operator.>=': 'mindestens',
+  'notifications.period.now': 'jetzt',
+  'notifications.period.nextHours': {
+    one: 'in der nächsten Stunde',
+    other: 'in den nächsten {count} Stunden',
+  },
+  'notifications.period.today': 'heute',
+  'notifications.period.tomorrow': 'morgen',
+  'notifications.periodOption.now': 'Jetzt',
+  'notifications.periodOption.nextHours': 'Nächste Stunden',
+  'notifications.periodOption.today': 'Heute',
+  'notifications.periodOption.tomorrow': 'Morgen',
+  'notifications.rulesTitle': 'Wetterbenachrichtigungen',
+  'notifications.rulesEmpty':
+    'Noch keine Regeln. Lege eine an, um benachrichtigt zu werden, wenn das Wetter einen Grenzwert überschreitet.',
+  'notifications.newRule': 'Neue Regel',
+  'notifications.field.metric': 'Messgröße',
+  'notifications.field.operator': 'Bedingung',
+  'notifications.field.threshold': 'Wert',
+  'notifications.field.period': 'Wann',
+  'notifications.field.hours': 'Stunden voraus',
+  'notifications.field.location': 'Ort',
+  'notifications.field.cooldown': 'Höchstens benachrichtigen alle',
+  'notifications.displayedLocation': 'Angezeigter Ort',
+  'notifications.cooldownHours': {
+    one: '{count} Stunde',
+    other: '{count} Stunden',
+  },
+  'notifications.addRule': 'Regel hinzufügen',
+  'notifications.enableRule': 'Regel aktivieren: {summary}',
+  'notifications.removeRule': 'Regel entfernen: {summary}',
+  'notifications.center': 'Benachrichtigungen',
+  'notifications.unread': {
+    one: '{count} ungelesene Benachrichtigung',
+    other: '{count} ungelesene Benachrichtigungen',
+  },
+  'notifications.centerEmpty': 'Noch keine Benachrichtigungen',
+  'notifications.clear': 'Alle löschen',
+  'notifications.enableBrowser': 'Browserbenachrichtigungen anzeigen',
+  'notifications.blocked': 'Browserbenachrichtigungen sind blockiert, daher erscheinen sie hier.',
+};
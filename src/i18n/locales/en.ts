@@ -0,0 +1,243 @@
+import type { Message } from '../../types/i18n';
+
+/**
+ * English messages. This is the reference catalog: its keys define
+ * MessageKey, and it is the fallback for keys missing from other locales.
+ */
+export const en = {
+  'app.title': 'Weather',
+  'app.offline': 'You are offline. Weather data may be outdated.',
+  'app.staleOffline': 'You are offline. Showing weather as of {time}.',
+  'app.staleError': 'Could not refresh. Showing weather as of {time}.',
+  'app.storageFull': 'Your settings could not be saved because browser storage is full.',
+
+  'common.today': 'Today',
+  'common.tomorrow': 'Tomorrow',
+  'common.saveFavorite': 'Save {name} to favorites',
+  'common.hourly': 'Hourly',
+  'common.precipitation': 'Precipitation',
+  'common.chanceOfPrecipitation': 'Chance of precipitation',
+  'common.sunrise': 'Sunrise',
+  'common.sunset': 'Sunset',
+  'common.highLow': 'High {high} / Low {low}',
+
+  'current.toggleUnit': 'Toggle temperature unit',
+  'current.localTime': 'Local time: {time}',
+  'current.humidity': 'Humidity',
+  'current.wind': 'Wind',
+  'current.pressure': 'Pressure',
+  'current.visibility': 'Visibility',
+  'current.uvIndex': 'UV Index',
+  'current.apiKeyHint': 'Set {variable} in your {file} file to a valid key and restart the app.',
+  'current.notFoundHint': 'Check the spelling or search for a nearby city.',
+  'current.didYouMean': 'Did you mean:',
+  'current.quotaHint': 'The API quota is used up. Please try again later.',
+  'current.retryAfter': {
+    one: 'You can try again in {count} second.',
+    other: 'You can try again in {count} seconds.',
+  },
+  'current.retry': 'Retry',
+  'current.sameAsLastYear': 'Same high as this day last year',
+  'current.warmerThanLastYear': '{difference}° warmer than this day last year',
+  'current.colderThanLastYear': '{difference}° colder than this day last year',
+  'current.lastYearDetail': '{summary} (high of {high}, {condition})',
+
+  'search.placeholder': 'Search for a city...',
+  'search.label': 'Search for a city',
+  'search.useCurrentLocation': 'Use current location',
+  'search.follow': 'Follow my location',
+  'search.stopFollowing': 'Stop following my location',
+  'search.followingStarted': 'Following your location',
+  'search.followingStopped': 'Stopped following your location',
+  'search.geolocationUnsupported': 'Geolocation is not supported by your browser.',
+  'search.followFailed': 'Unable to follow your location. Please check permissions.',
+  'search.locateFailed': 'Unable to get your location. Please check permissions.',
+  'search.detecting': 'Detecting location...',
+  'search.searching': 'Searching...',
+  'search.noResults': 'No locations found',
+  'search.resultsFound': {
+    one: '{count} location found. Use up and down arrows to choose.',
+    other: '{count} locations found. Use up and down arrows to choose.',
+  },
+  'search.failed': 'Failed to search locations. Please try again.',
+  'search.suggestions': 'Location suggestions',
+  'search.recent': 'Recent',
+  'search.recentCount': {
+    one: '{count} recent search',
+    other: '{count} recent searches',
+  },
+  'search.clearHistory': 'Clear history',
+  'search.removeRecent': 'Remove {name} from recent searches',
+
+  'forecast.title': 'Forecast',
+  'forecast.length': 'Forecast length',
+  'forecast.days': {
+    one: '{count} day',
+    other: '{count} days',
+  },
+  'forecast.empty': 'No forecast data available',
+  'forecast.chanceOfRain': 'Chance of rain',
+
+  'chart.title': 'Temperature & precipitation',
+  'chart.label': {
+    one: 'Temperature and precipitation chart for the next day. Use the left and right arrow keys to step through the hours.',
+    other: 'Temperature and precipitation chart for the next {count} days. Use the left and right arrow keys to step through the hours.',
+  },
+  'chart.chanceOfPrecipitation': '{percent} chance of precipitation',
+
+  'hourly.title': {
+    one: 'Next hour',
+    other: 'Next {count} hours',
+  },
+  'hourly.label': 'Hourly forecast',
+  'hourly.now': 'Now',
+  'hourly.feelsLike': 'Feels {temperature}',
+
+  'dayDetail.previous': 'Previous day',
+  'dayDetail.next': 'Next day',
+  'dayDetail.close': 'Close day details',
+  'dayDetail.moonPhase': 'Moon phase',
+  'dayDetail.chanceOfSnow': 'Chance of snow',
+  'dayDetail.maxUv': 'Max UV',
+  'dayDetail.hoursEmpty': 'No hourly data available',
+  'dayDetail.hoursLabel': 'Hourly breakdown',
+
+  'history.title': 'History',
+  'history.date': 'Date',
+  'history.hint': 'Pick a date to see the weather observed that day.',
+  'history.maxWind': 'Max wind',
+  'history.sunriseSunset': 'Sunrise / sunset',
+  'history.hoursCaption': 'Hourly observations',
+  'history.time': 'Time',
+  'history.temperature': 'Temp',
+  'history.feelsLike': 'Feels like',
+  'history.conditions': 'Conditions',
+
+  'airQuality.title': 'Air Quality',
+  'airQuality.category.good': 'Good',
+  'airQuality.category.moderate': 'Moderate',
+  'airQuality.category.sensitive': 'Unhealthy for sensitive groups',
+  'airQuality.category.unhealthy': 'Unhealthy',
+  'airQuality.category.very-unhealthy': 'Very unhealthy',
+  'airQuality.category.hazardous': 'Hazardous',
+  'airQuality.guidance.good': 'Air quality is satisfactory. Enjoy your usual outdoor activities.',
+  'airQuality.guidance.moderate':
+    'Unusually sensitive people should consider reducing prolonged or heavy exertion outdoors.',
+  'airQuality.guidance.sensitive':
+    'People with asthma, heart or lung disease, children and older adults should limit prolonged outdoor exertion and keep reliever medication at hand.',
+  'airQuality.guidance.unhealthy':
+    'Everyone should reduce prolonged outdoor exertion. Sensitive groups should avoid it and stay indoors where possible.',
+  'airQuality.guidance.very-unhealthy':
+    'Health alert: everyone may experience effects. Avoid outdoor exertion and keep windows closed.',
+  'airQuality.guidance.hazardous':
+    'Health warning of emergency conditions. Everyone should remain indoors and avoid physical activity.',
+  'airQuality.epaValue': 'US EPA index {index}: {category}',
+  'airQuality.indices': 'US EPA index {epa} · UK DEFRA index {defra} ({band})',
+  'airQuality.defraBand.low': 'Low',
+  'airQuality.defraBand.moderate': 'Moderate',
+  'airQuality.defraBand.high': 'High',
+  'airQuality.defraBand.veryHigh': 'Very High',
+  'airQuality.footnote': 'Concentrations in µg/m³',
+
+  'alerts.label': 'Weather alerts',
+  'alerts.severity.extreme': 'Extreme',
+  'alerts.severity.severe': 'Severe',
+  'alerts.severity.moderate': 'Moderate',
+  'alerts.severity.minor': 'Minor',
+  'alerts.severity.unknown': 'Alert',
+  'alerts.dismiss': 'Dismiss {event} alert',
+  'alerts.details': 'Details',
+  'alerts.until': 'Until {time}',
+
+  'favorites.title': 'Favorites',
+  'favorites.unavailable': 'Unavailable',
+  'favorites.reorder': 'Reorder {name}. Use arrow keys to move.',
+  'favorites.remove': 'Remove {name} from favorites',
+
+  'settings.units': 'Units',
+  'settings.label': 'Unit settings',
+  'settings.language': 'Language',
+  'settings.reset': 'Reset to defaults',
+  'settings.theme': 'Theme',
+  'settings.ambient': 'Match background to weather',
+  'settings.field.temperature': 'Temperature',
+  'settings.field.windSpeed': 'Wind speed',
+  'settings.field.pressure': 'Pressure',
+  'settings.field.distance': 'Distance',
+  'settings.field.precipitation': 'Precipitation',
+
+  'theme.auto': 'System',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.high-contrast': 'High contrast',
+
+  'units.temperature.C': 'Celsius (°C)',
+  'units.temperature.F': 'Fahrenheit (°F)',
+  'units.windSpeed.kmh': 'km/h',
+  'units.windSpeed.mph': 'mph',
+  'units.windSpeed.ms': 'm/s',
+  'units.windSpeed.kn': 'Knots',
+  'units.windSpeed.bft': 'Beaufort',
+  'units.pressure.hPa': 'hPa',
+  'units.pressure.inHg': 'inHg',
+  'units.pressure.mmHg': 'mmHg',
+  'units.distance.km': 'Kilometres',
+  'units.distance.mi': 'Miles',
+  'units.precipitation.mm': 'Millimetres',
+  'units.precipitation.in': 'Inches',
+
+  'notifications.title': 'Weather at {location}',
+  'notifications.triggered': '{summary} ({value})',
+  'notifications.ruleSummary': '{metric} {operator} {threshold} {period}',
+  'notifications.ruleAt': '{summary} at {location}',
+  'notifications.metric.temperature': 'Temperature',
+  'notifications.metric.chanceOfRain': 'Chance of rain',
+  'notifications.metric.uvIndex': 'UV index',
+  'notifications.operator.<': 'below',
+  'notifications.operator.<=': 'at or below',
+  'notifications.operator.>': 'above',
+  'notifications.operator.>=': 'at or above',
+  'notifications.period.now': 'now',
+  'notifications.period.nextHours': {
+    one: 'in the next hour',
+    other: 'in the next {count} hours',
+  },
+  'notifications.period.today': 'today',
+  'notifications.period.tomorrow': 'tomorrow',
+  'notifications.periodOption.now': 'Now',
+  'notifications.periodOption.nextHours': 'Next hours',
+  'notifications.periodOption.today': 'Today',
+  'notifications.periodOption.tomorrow': 'Tomorrow',
+  'notifications.rulesTitle': 'Weather notifications',
+  'notifications.rulesEmpty': 'No rules yet. Add one to be notified when the weather crosses a threshold.',
+  'notifications.newRule': 'New rule',
+  'notifications.field.metric': 'Measure',
+  'notifications.field.operator': 'Condition',
+  'notifications.field.threshold': 'Value',
+  'notifications.field.period': 'When',
+  'notifications.field.hours': 'Hours ahead',
+  'notifications.field.location': 'Location',
+  'notifications.field.cooldown': 'Notify at most every',
+  'notifications.displayedLocation': 'Displayed location',
+  'notifications.cooldownHours': {
+    one: '{count} hour',
+    other: '{count} hours',
+  },
+  'notifications.addRule': 'Add rule',
+  'notifications.enableRule': 'Enable rule: {summary}',
+  'notifications.removeRule': 'Remove rule: {summary}',
+  'notifications.center': 'Notifications',
+  'notifications.unread': {
+    one: '{count} unread notification',
+    other: '{count} unread notifications',
+  },
+  'notifications.centerEmpty': 'No notifications yet',
+  'notifications.clear': 'Clear all',
+  'notifications.enableBrowser': 'Show browser notifications',
+  'notifications.blocked': 'Browser notifications are blocked, so they appear here.',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog for one locale. */
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,238 @@
+import type { Messages } from './en';
+
+export const es: Messages = {
+  'app.title': 'El tiempo',
+  'app.offline': 'Estás sin conexión. Los datos del tiempo pueden estar desactualizados.',
+  'app.staleOffline': 'Estás sin conexión. Se muestra el tiempo de las {time}.',
+  'app.staleError': 'No se pudo actualizar. Se muestra el tiempo de las {time}.',
+  'app.storageFull':
+    'No se pudo guardar tu configuración porque el almacenamiento del navegador está lleno.',
+
+  'common.today': 'Hoy',
+  'common.tomorrow': 'Mañana',
+  'common.saveFavorite': 'Guardar {name} en favoritos',
+  'common.hourly': 'Por horas',
+  'common.precipitation': 'Precipitación',
+  'common.chanceOfPrecipitation': 'Probabilidad de precipitación',
+  'common.sunrise': 'Amanecer',
+  'common.sunset': 'Atardecer',
+  'common.highLow': 'Máx. {high} / Mín. {low}',
+
+  'current.toggleUnit': 'Cambiar unidad de temperatura',
+  'current.localTime': 'Hora local: {time}',
+  'current.humidity': 'Humedad',
+  'current.wind': 'Viento',
+  'current.pressure': 'Presión',
+  'current.visibility': 'Visibilidad',
+  'current.uvIndex': 'Índice UV',
+  'current.apiKeyHint':
+    'Define {variable} en tu archivo {file} con una clave válida y reinicia la aplicación.',
+  'current.notFoundHint': 'Comprueba la ortografía o busca una ciudad cercana.',
+  'current.didYouMean': '¿Quisiste decir?',
+  'current.quotaHint': 'Se ha agotado la cuota de la API. Inténtalo de nuevo más tarde.',
+  'current.retryAfter': {
+    one: 'Puedes volver a intentarlo en {count} segundo.',
+    other: 'Puedes volver a intentarlo en {count} segundos.',
+  },
+  'current.retry': 'Reintentar',
+  'current.sameAsLastYear': 'La misma máxima que este día el año pasado',
+  'current.warmerThanLastYear': '{difference}° más cálido que este día el año pasado',
+  'current.colderThanLastYear': '{difference}° más frío que este día el año pasado',
+  'current.lastYearDetail': '{summary} (máxima de {high}, {condition})',
+
+  'search.placeholder': 'Buscar una ciudad...',
+  'search.label': 'Buscar una ciudad',
+  'search.useCurrentLocation': 'Usar ubicación actual',
+  'search.follow': 'Seguir mi ubicación',
+  'search.stopFollowing': 'Dejar de seguir mi ubicación',
+  'search.followingStarted': 'Siguiendo tu ubicación',
+  'search.followingStopped': 'Se dejó de seguir tu ubicación',
+  'search.geolocationUnsupported': 'Tu navegador no admite la geolocalización.',
+  'search.followFailed': 'No se puede seguir tu ubicación. Comprueba los permisos.',
+  'search.locateFailed': 'No se pudo obtener tu ubicación. Comprueba los permisos.',
+  'search.detecting': 'Detectando ubicación...',
+  'search.searching': 'Buscando...',
+  'search.noResults': 'No se encontraron lugares',
+  'search.resultsFound': {
+    one: 'Se encontró {count} lugar. Usa las flechas arriba y abajo para elegir.',
+    other: 'Se encontraron {count} lugares. Usa las flechas arriba y abajo para elegir.',
+  },
+  'search.failed': 'No se pudieron buscar lugares. Inténtalo de nuevo.',
+  'search.suggestions': 'Sugerencias de lugares',
+  'search.recent': 'Recientes',
+  'search.recentCount': {
+    one: '{count} búsqueda reciente',
+    other: '{count} búsquedas recientes',
+  },
+  'search.clearHistory': 'Borrar historial',
+  'search.removeRecent': 'Quitar {name} de las búsquedas recientes',
+
+  'forecast.title': 'Pronóstico',
+  'forecast.length': 'Duración del pronóstico',
+  'forecast.days': {
+    one: '{count} día',
+    other: '{count} días',
+  },
+  'forecast.empty': 'No hay datos de pronóstico disponibles',
+  'forecast.chanceOfRain': 'Probabilidad de lluvia',
+
+  'chart.title': 'Temperatura y precipitación',
+  'chart.label': {
+    one: 'Gráfico de temperatura y precipitación para el próximo día. Usa las flechas izquierda y derecha para recorrer las horas.',
+    other: 'Gráfico de temperatura y precipitación para los próximos {count} días. Usa las flechas izquierda y derecha para recorrer las horas.',
+  },
+  'chart.chanceOfPrecipitation': '{percent} de probabilidad de precipitación',
+
+  'hourly.title': {
+    one: 'Próxima hora',
+    other: 'Próximas {count} horas',
+  },
+  'hourly.label': 'Previsión por horas',
+  'hourly.now': 'Ahora',
+  'hourly.feelsLike': 'Sensación {temperature}',
+
+  'dayDetail.previous': 'Día anterior',
+  'dayDetail.next': 'Día siguiente',
+  'dayDetail.close': 'Cerrar detalles del día',
+  'dayDetail.moonPhase': 'Fase lunar',
+  'dayDetail.chanceOfSnow': 'Probabilidad de nieve',
+  'dayDetail.maxUv': 'UV máx.',
+  'dayDetail.hoursEmpty': 'No hay datos por horas',
+  'dayDetail.hoursLabel': 'Desglose por horas',
+
+  'history.title': 'Histórico',
+  'history.date': 'Fecha',
+  'history.hint': 'Elige una fecha para ver el tiempo observado ese día.',
+  'history.maxWind': 'Viento máx.',
+  'history.sunriseSunset': 'Amanecer / atardecer',
+  'history.hoursCaption': 'Observaciones por horas',
+  'history.time': 'Hora',
+  'history.temperature': 'Temp.',
+  'history.feelsLike': 'Sensación',
+  'history.conditions': 'Condiciones',
+
+  'airQuality.title': 'Calidad del aire',
+  'airQuality.category.good': 'Buena',
+  'airQuality.category.moderate': 'Moderada',
+  'airQuality.category.sensitive': 'Dañina para grupos sensibles',
+  'airQuality.category.unhealthy': 'Dañina',
+  'airQuality.category.very-unhealthy': 'Muy dañina',
+  'airQuality.category.hazardous': 'Peligrosa',
+  'airQuality.guidance.good':
+    'La calidad del aire es satisfactoria. Disfruta de tus actividades habituales al aire libre.',
+  'airQuality.guidance.moderate':
+    'Las personas especialmente sensibles deberían reducir los esfuerzos prolongados o intensos al aire libre.',
+  'airQuality.guidance.sensitive':
+    'Las personas con asma o enfermedades cardíacas o pulmonares, los niños y los mayores deberían limitar los esfuerzos prolongados al aire libre y tener a mano su medicación de rescate.',
+  'airQuality.guidance.unhealthy':
+    'Todo el mundo debería reducir los esfuerzos prolongados al aire libre. Los grupos sensibles deberían evitarlos y quedarse en interiores si es posible.',
+  'airQuality.guidance.very-unhealthy':
+    'Alerta sanitaria: cualquiera puede notar efectos. Evita los esfuerzos al aire libre y mantén las ventanas cerradas.',
+  'airQuality.guidance.hazardous':
+    'Advertencia sanitaria de emergencia. Todo el mundo debería permanecer en interiores y evitar la actividad física.',
+  'airQuality.epaValue': 'Índice US EPA {index}: {category}',
+  'airQuality.indices': 'Índice US EPA {epa} · índice UK DEFRA {defra} ({band})',
+  'airQuality.defraBand.low': 'Bajo',
+  'airQuality.defraBand.moderate': 'Moderado',
+  'airQuality.defraBand.high': 'Alto',
+  'airQuality.defraBand.veryHigh': 'Muy alto',
+  'airQuality.footnote': 'Concentraciones en µg/m³',
+
+  'alerts.label': 'Alertas meteorológicas',
+  'alerts.severity.extreme': 'Extrema',
+  'alerts.severity.severe': 'Grave',
+  'alerts.severity.moderate': 'Moderada',
+  'alerts.severity.minor': 'Menor',
+  'alerts.severity.unknown': 'Alerta',
+  'alerts.dismiss': 'Descartar la alerta «{event}»',
+  'alerts.details': 'Detalles',
+  'alerts.until': 'Hasta {time}',
+
+  'favorites.title': 'Favoritos',
+  'favorites.unavailable': 'No disponible',
+  'favorites.reorder': 'Reordenar {name}. Usa las flechas para moverlo.',
+  'favorites.remove': 'Eliminar {name} de favoritos',
+
+  'settings.units': 'Unidades',
+  'settings.label': 'Ajustes de unidades',
+  'settings.language': 'Idioma',
+  'settings.reset': 'Restablecer valores predeterminados',
+  'settings.theme': 'Tema',
+  'settings.ambient': 'Adaptar el fondo al tiempo',
+  'settings.field.temperature': 'Temperatura',
+  'settings.field.windSpeed': 'Velocidad del viento',
+  'settings.field.pressure': 'Presión',
+  'settings.field.distance': 'Distancia',
+  'settings.field.precipitation': 'Precipitación',
+
+  'theme.auto': 'Sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+  'theme.high-contrast': 'Alto contraste',
+
+  'units.temperature.C': 'Celsius (°C)',
+  'units.temperature.F': 'Fahrenheit (°F)',
+  'units.windSpeed.kmh': 'km/h',
+  'units.windSpeed.mph': 'mph',
+  'units.windSpeed.ms': 'm/s',
+  'units.windSpeed.kn': 'Nudos',
+  'units.windSpeed.bft': 'Beaufort',
+  'units.pressure.hPa': 'hPa',
+  'units.pressure.inHg': 'inHg',
+  'units.pressure.mmHg': 'mmHg',
+  'units.distance.km': 'Kilómetros',
+  'units.distance.mi': 'Millas',
+  'units.precipitation.mm': 'Milímetros',
+  'units.precipitation.in': 'Pulgadas',
+
+  'notifications.title': 'El tiempo en {location}',
+  'notifications.triggered': '{summary} ({value})',
+  'notifications.ruleSummary': '{metric} {operator} {threshold} {period}',
+  'notifications.ruleAt': '{summary} en {location}',
+  'notifications.metric.temperature': 'Temperatura',
+  'notifications.metric.chanceOfRain': 'Probabilidad de lluvia',
+  'notifications.metric.uvIndex': 'Índice UV',
+  'notifications.operator.<': 'por debajo de',
+  'notifications.operator.<=': 'como máximo',
+  'notifications.operator.>': 'por encima de',
+  'notifications.operator.>=': 'como mínimo',
+  'notifications.period.now': 'ahora',
+  'notifications.period.nextHours': {
+    one: 'en la próxima hora',
+    other: 'en las próximas {count} horas',
+  },
+  'notifications.period.today': 'hoy',
+  'notifications.period.tomorrow': 'mañana',
+  'notifications.periodOption.now': 'Ahora',
+  'notifications.periodOption.nextHours': 'Próximas horas',
+  'notifications.periodOption.today': 'Hoy',
+  'notifications.periodOption.tomorrow': 'Mañana',
+  'notifications.rulesTitle': 'Notificaciones del tiempo',
+  'notifications.rulesEmpty':
+    'Aún no hay reglas. Añade una para recibir un aviso cuando el tiempo supere un umbral.',
+  'notifications.newRule': 'Nueva regla',
+  'notifications.field.metric': 'Medida',
+  'notifications.field.operator': 'Condición',
+  'notifications.field.threshold': 'Valor',
+  'notifications.field.period': 'Cuándo',
+  'notifications.field.hours': 'Horas de antelación',
+  'notifications.field.location': 'Ubicación',
+  'notifications.field.cooldown': 'Avisar como máximo cada',
+  'notifications.displayedLocation': 'Ubicación mostrada',
+  'notifications.cooldownHours': {
+    one: '{count} hora',
+    other: '{count} horas',
+  },
+  'notifications.addRule': 'Añadir regla',
+  'notifications.enableRule': 'Activar regla: {summary}',
+  'notifications.removeRule': 'Eliminar regla: {summary}',
+  'notifications.center': 'Notificaciones',
+  'notifications.unread': {
+    one: '{count} notificación sin leer',
+    other: '{count} notificaciones sin leer',
+  },
+  'notifications.centerEmpty': 'Aún no hay notificaciones',
+  'notifications.clear': 'Borrar todo',
+  'notifications.enableBrowser': 'Mostrar notificaciones del navegador',
+  'notifications.blocked': 'Las notificaciones del navegador están bloqueadas, así que aparecen aquí.',
+};
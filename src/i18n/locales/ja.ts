@@ -0,0 +1,225 @@
+import type { Messages } from './en';
+
+export const ja: Messages = {
+  'app.title': '天気',
+  'app.offline': 'オフラインです。天気情報が古い可能性があります。',
+  'app.staleOffline': 'オフラインです。{time} 時点の天気を表示しています。',
+  'app.staleError': '更新できませんでした。{time} 時点の天気を表示しています。',
+  'app.storageFull': 'ブラウザのストレージがいっぱいのため、設定を保存できませんでした。',
+
+  'common.today': '今日',
+  'common.tomorrow': '明日',
+  'common.saveFavorite': '{name}をお気に入りに保存',
+  'common.hourly': '1時間ごと',
+  'common.precipitation': '降水量',
+  'common.chanceOfPrecipitation': '降水確率',
+  'common.sunrise': '日の出',
+  'common.sunset': '日の入り',
+  'common.highLow': '最高 {high} / 最低 {low}',
+
+  'current.toggleUnit': '温度の単位を切り替え',
+  'current.localTime': '現地時刻: {time}',
+  'current.humidity': '湿度',
+  'current.wind': '風',
+  'current.pressure': '気圧',
+  'current.visibility': '視程',
+  'current.uvIndex': 'UV指数',
+  'current.apiKeyHint': '{file} ファイルの {variable} に有効なキーを設定し、アプリを再起動してください。',
+  'current.notFoundHint': 'つづりを確認するか、近くの都市を検索してください。',
+  'current.didYouMean': 'もしかして:',
+  'current.quotaHint': 'API の利用上限に達しました。しばらくしてから再度お試しください。',
+  'current.retryAfter': {
+    other: '{count} 秒後に再試行できます。',
+  },
+  'current.retry': '再試行',
+  'current.sameAsLastYear': '昨年の同じ日と同じ最高気温です',
+  'current.warmerThanLastYear': '昨年の同じ日より {difference}° 暖かいです',
+  'current.colderThanLastYear': '昨年の同じ日より {difference}° 寒いです',
+  'current.lastYearDetail': '{summary}(最高 {high}、{condition})',
+
+  'search.placeholder': '都市を検索...',
+  'search.label': '都市を検索',
+  'search.useCurrentLocation': '現在地を使用',
+  'search.follow': '現在地を追跡',
+  'search.stopFollowing': '現在地の追跡を停止',
+  'search.followingStarted': '現在地を追跡しています',
+  'search.followingStopped': '現在地の追跡を停止しました',
+  'search.geolocationUnsupported': 'お使いのブラウザは位置情報に対応していません。',
+  'search.followFailed': '現在地を追跡できません。権限を確認してください。',
+  'search.locateFailed': '現在地を取得できません。権限を確認してください。',
+  'search.detecting': '現在地を取得中...',
+  'search.searching': '検索中...',
+  'search.noResults': '場所が見つかりません',
+  'search.resultsFound': {
+    other: '{count} 件の場所が見つかりました。上下の矢印キーで選択してください。',
+  },
+  'search.failed': '場所を検索できませんでした。もう一度お試しください。',
+  'search.suggestions': '場所の候補',
+  'search.recent': '最近の検索',
+  'search.recentCount': {
+    other: '最近の検索 {count} 件',
+  },
+  'search.clearHistory': '履歴を消去',
+  'search.removeRecent': '{name}を最近の検索から削除',
+
+  'forecast.title': '予報',
+  'forecast.length': '予報期間',
+  'forecast.days': {
+    other: '{count} 日間',
+  },
+  'forecast.empty': '予報データがありません',
+  'forecast.chanceOfRain': '降水確率',
+
+  'chart.title': '気温と降水',
+  'chart.label': {
+    other: '今後 {count} 日間の気温と降水のグラフです。左右の矢印キーで時間を移動できます。',
+  },
+  'chart.chanceOfPrecipitation': '降水確率 {percent}',
+
+  'hourly.title': {
+    other: '今後 {count} 時間',
+  },
+  'hourly.label': '1時間ごとの予報',
+  'hourly.now': '現在',
+  'hourly.feelsLike': '体感 {temperature}',
+
+  'dayDetail.previous': '前日',
+  'dayDetail.next': '翌日',
+  'dayDetail.close': '日の詳細を閉じる',
+  'dayDetail.moonPhase': '月相',
+  'dayDetail.chanceOfSnow': '降雪確率',
+  'dayDetail.maxUv': '最大UV',
+  'dayDetail.hoursEmpty': '1時間ごとのデータはありません',
+  'dayDetail.hoursLabel': '1時間ごとの内訳',
+
+  'history.title': '過去の天気',
+  'history.date': '日付',
+  'history.hint': '日付を選ぶと、その日に観測された天気が表示されます。',
+  'history.maxWind': '最大風速',
+  'history.sunriseSunset': '日の出 / 日の入り',
+  'history.hoursCaption': '1時間ごとの観測値',
+  'history.time': '時刻',
+  'history.temperature': '気温',
+  'history.feelsLike': '体感',
+  'history.conditions': '天気',
+
+  'airQuality.title': '大気質',
+  'airQuality.category.good': '良好',
+  'airQuality.category.moderate': '普通',
+  'airQuality.category.sensitive': '敏感な人には不健康',
+  'airQuality.category.unhealthy': '不健康',
+  'airQuality.category.very-unhealthy': '非常に不健康',
+  'airQuality.category.hazardous': '危険',
+  'airQuality.guidance.good': '大気の状態は良好です。いつもどおり屋外での活動をお楽しみください。',
+  'airQuality.guidance.moderate': '特に敏感な方は、屋外での長時間の運動や激しい運動を控えることを検討してください。',
+  'airQuality.guidance.sensitive':
+    'ぜんそく、心臓病や肺疾患のある方、子ども、高齢者は屋外での長時間の運動を控え、発作止めの薬を手元に置いてください。',
+  'airQuality.guidance.unhealthy':
+    'すべての人が屋外での長時間の運動を減らしてください。敏感な方は運動を避け、できるだけ屋内で過ごしてください。',
+  'airQuality.guidance.very-unhealthy': '健康警報: すべての人に影響が出るおそれがあります。屋外での運動を避け、窓を閉めてください。',
+  'airQuality.guidance.hazardous': '緊急事態レベルの健康警告です。すべての人が屋内にとどまり、身体活動を避けてください。',
+  'airQuality.epaValue': '米国EPA指数 {index}: {category}',
+  'airQuality.indices': '米国EPA指数 {epa} · 英国DEFRA指数 {defra} ({band})',
+  'airQuality.defraBand.low': '低',
+  'airQuality.defraBand.moderate': '中',
+  'airQuality.defraBand.high': '高',
+  'airQuality.defraBand.veryHigh': '非常に高い',
+  'airQuality.footnote': '濃度の単位は µg/m³',
+
+  'alerts.label': '気象警報',
+  'alerts.severity.extreme': '極めて危険',
+  'alerts.severity.severe': '重大',
+  'alerts.severity.moderate': '中程度',
+  'alerts.severity.minor': '軽度',
+  'alerts.severity.unknown': '警報',
+  'alerts.dismiss': '「{event}」の警報を閉じる',
+  'alerts.details': '詳細',
+  'alerts.until': '{time} まで',
+
+  'favorites.title': 'お気に入り',
+  'favorites.unavailable': '取得できません',
+  'favorites.reorder': '{name}を並べ替え。矢印キーで移動します。',
+  'favorites.remove': '{name}をお気に入りから削除',
+
+  'settings.units': '単位',
+  'settings.label': '単位の設定',
+  'settings.language': '言語',
+  'settings.reset': '初期設定に戻す',
+  'settings.theme': 'テーマ',
+  'settings.ambient': '背景を天気に合わせる',
+  'settings.field.temperature': '気温',
+  'settings.field.windSpeed': '風速',
+  'settings.field.pressure': '気圧',
+  'settings.field.distance': '距離',
+  'settings.field.precipitation': '降水量',
+
+  'theme.auto': 'システム',
+  'theme.light': 'ライト',
+  'theme.dark': 'ダーク',
+  'theme.high-contrast': 'ハイコントラスト',
+
+  'units.temperature.C': '摂氏 (°C)',
+  'units.temperature.F': '華氏 (°F)',
+  'units.windSpeed.kmh': 'km/h',
+  'units.windSpeed.mph': 'mph',
+  'units.windSpeed.ms': 'm/s',
+  'units.windSpeed.kn': 'ノット',
+  'units.windSpeed.bft': 'ビューフォート',
+  'units.pressure.hPa': 'hPa',
+  'units.pressure.inHg': 'inHg',
+  'units.pressure.mmHg': 'mmHg',
+  'units.distance.km': 'キロメートル',
+  'units.distance.mi': 'マイル',
+  'units.precipitation.mm': 'ミリメートル',
+  'units.precipitation.in': 'インチ',
+
+  'notifications.title': '{location}の天気',
+  'notifications.triggered': '{summary}（{value}）',
+  'notifications.ruleSummary': '{period}の{metric}が{threshold}{operator}',
+  'notifications.ruleAt': '{location}：{summary}',
+  'notifications.metric.temperature': '気温',
+  'notifications.metric.chanceOfRain': '降水確率',
+  'notifications.metric.uvIndex': 'UV指数',
+  'notifications.operator.<': '未満',
+  'notifications.operator.<=': '以下',
+  'notifications.operator.>': 'を超える',
+  'notifications.operator.>=': '以上',
+  'notifications.period.now': '現在',
+  'notifications.period.nextHours': {
+    one: '今後 1 時間',
+    other: '今後 {count} 時間',
+  },
+  'notifications.period.today': '今日',
+  'notifications.period.tomorrow': '明日',
+  'notifications.periodOption.now': '現在',
+  'notifications.periodOption.nextHours': '今後数時間',
+  'notifications.periodOption.today': '今日',
+  'notifications.periodOption.tomorrow': '明日',
+  'notifications.rulesTitle': '天気の通知',
+  'notifications.rulesEmpty': 'ルールはまだありません。天気がしきい値を超えたときに通知するルールを追加してください。',
+  'notifications.newRule': '新しいルール',
+  'notifications.field.metric': '項目',
+  'notifications.field.operator': '条件',
+  'notifications.field.threshold': '値',
+  'notifications.field.period': '期間',
+  'notifications.field.hours': '先の時間数',
+  'notifications.field.location': '地点',
+  'notifications.field.cooldown': '通知の最短間隔',
+  'notifications.displayedLocation': '表示中の地点',
+  'notifications.cooldownHours': {
+    one: '{count} 時間',
+    other: '{count} 時間',
+  },
+  'notifications.addRule': 'ルールを追加',
+  'notifications.enableRule': 'ルールを有効にする：{summary}',
+  'notifications.removeRule': 'ルールを削除：{summary}',
+  'notifications.center': '通知',
+  'notifications.unread': {
+    one: '未読の通知 {count} 件',
+    other: '未読の通知 {count} 件',
+  },
+  'notifications.centerEmpty': '通知はまだありません',
+  'notifications.clear': 'すべて消去',
+  'notifications.enableBrowser': 'ブラウザの通知を表示',
+  'notifications.blocked': 'ブラウザの通知がブロックされているため、ここに表示されます。',
+};
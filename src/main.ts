@@ -1,5 +1,21 @@
 import { App } from './App';
+import { registerServiceWorker } from './utils/serviceWorker';
 import './styles/main.css';
+import './styles/components/air-quality.css';
+import './styles/components/alert-banner.css';
+import './styles/components/current-weather.css';
+import './styles/components/day-detail.css';
+import './styles/components/favorites.css';
+import './styles/components/forecast-chart.css';
+import './styles/components/hourly-forecast.css';
+import './styles/components/location-search.css';
+import './styles/components/notification-center.css';
+import './styles/components/notification-rules.css';
+import './styles/components/unit-settings.css';
+import './styles/components/weather-forecast.css';
+import './styles/components/weather-history.css';
+
+registerServiceWorker();
 
 const app = new App();
 
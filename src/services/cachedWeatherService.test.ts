@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { WeatherData } from '../types/weather';
+import type { WeatherProvider } from './providers';
+import { CachedWeatherService } from './cachedWeatherService';
+import { AbortedError } from './errors';
+
+/**
+ * Provider whose searches stay pending until aborted, recording each call's signal.
+ */
+function createPendingProvider(): WeatherProvider & { signals: AbortSignal[] } {
+  const signals: AbortSignal[] = [];
+  const pending = (signal?: AbortSignal) =>
+    new Promise<never>((_resolve, reject) => {
+      signals.push(signal!);
+      signal?.addEventListener('abort', () => reject(new AbortedError()));
+    });
+
+  return {
+    id: 'test',
+    maxForecastDays: 3,
+    signals,
+    setLanguage: () => {},
+    getCurrentWeather: (_query, signal) => pending(signal) as Promise<WeatherData>,
+    getForecast: (_query, _days, signal) => pending(signal) as Promise<WeatherData>,
+    getHistory: (_query, _date, signal) => pending(signal),
+    searchLocations: (_query, signal) => pending(signal),
+  };
+}
+
+/**
+ * Provider that answers every forecast at once with an empty one.
+ */
+function createForecastProvider(): WeatherProvider {
+  const forecast = { forecast: [] } as unknown as WeatherData;
+  return {
+    ...createPendingProvider(),
+    getForecast: async () => forecast,
+  };
+}
+
+describe('CachedWeatherService cancellation', () => {
+  it('shares one provider call between identical requests', () => {
+    const provider = createPendingProvider();
+    const service = new CachedWeatherService(provider);
+
+    service.searchLocations('London', new AbortController().signal).catch(() => {});
+    service.searchLocations(' london ', new AbortController().signal).catch(() => {});
+
+    expect(provider.signals).toHaveLength(1);
+  });
+
+  it('keeps the shared call running while another caller still waits', async () => {
+    const provider = createPendingProvider();
+    const service = new CachedWeatherService(provider);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = service.searchLocations('London', first.signal);
+    service.searchLocations('London', second.signal).catch(() => {});
+    first.abort();
+
+    await expect(firstResult).rejects.toBeInstanceOf(AbortedError);
+    expect(provider.signals[0].aborted).toBe(false);
+  });
+
+  it('aborts the provider call once every caller has aborted', async () => {
+    const provider = createPendingProvider();
+    const service = new CachedWeatherService(provider);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const results = [
+      service.searchLocations('London', first.signal),
+      service.searchLocations('London', second.signal),
+    ];
+    first.abort();
+    second.abort();
+
+    await Promise.allSettled(results);
+    expect(provider.signals[0].aborted).toBe(true);
+
+    // A later request starts over instead of joining the aborted one
+    service.searchLocations('London', new AbortController().signal).catch(() => {});
+    expect(provider.signals).toHaveLength(2);
+  });
+
+  it('never aborts a call that a caller without a signal is waiting for', async () => {
+    const provider = createPendingProvider();
+    const service = new CachedWeatherService(provider);
+    const controller = new AbortController();
+
+    service.searchLocations('London').catch(() => {});
+    const result = service.searchLocations('London', controller.signal);
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(AbortedError);
+    expect(provider.signals[0].aborted).toBe(false);
+  });
+});
+
+describe('CachedWeatherService revalidation', () => {
+  it('tells subscribers how many forecast days were revalidated', async () => {
+    // Entries are stale at once but still served while they revalidate
+    const service = new CachedWeatherService(createForecastProvider(), {
+      ttlMs: { current: 0, forecast: 0, history: 0, search: 0 },
+    });
+    const listener = vi.fn();
+    service.subscribe(listener);
+
+    await service.getForecast('London', 2);
+    await service.getForecast('London', 2);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledOnce());
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'forecast', query: 'London', days: 2 }));
+  });
+});
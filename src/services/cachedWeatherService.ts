@@ -0,0 +1,277 @@
+import { API_CONFIG } from '../config/api';
+import { CACHE_CONFIG } from '../config/cache';
+import type { WeatherData, WeatherHistory, LocationSuggestion } from '../types/weather';
+import { abortable } from '../utils/abort';
+import type { WeatherProvider } from './providers';
+import { AbortedError } from './errors';
+import { WeatherService } from './weatherService';
+
+export type CachedRequestType = 'current' | 'forecast' | 'history' | 'search';
+
+export interface CacheOptions {
+  ttlMs: Record<CachedRequestType, number>;
+  maxStaleMs: number;
+  maxEntries: number;
+}
+
+export interface RevalidatedEvent {
+  type: 'current' | 'forecast';
+  query: string;
+  /** Number of forecast days requested; only set for forecasts. */
+  days?: number;
+  data: WeatherData;
+}
+
+type RevalidationRequest = Omit<RevalidatedEvent, 'data'>;
+
+type RevalidateListener = (event: RevalidatedEvent) => void;
+
+interface CacheEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * A network request shared by every caller asking for the same key while it runs.
+ */
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  /** Callers still waiting; the request is aborted when this drops to zero. */
+  callers: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: {
+    current: CACHE_CONFIG.TTL_MS.CURRENT,
+    forecast: CACHE_CONFIG.TTL_MS.FORECAST,
+    history: CACHE_CONFIG.TTL_MS.HISTORY,
+    search: CACHE_CONFIG.TTL_MS.SEARCH,
+  },
+  maxStaleMs: CACHE_CONFIG.MAX_STALE_MS,
+  maxEntries: CACHE_CONFIG.MAX_ENTRIES,
+};
+
+const COORDINATE_PATTERN = /^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Normalizes a location query so equivalent spellings share a cache entry,
+ * e.g. " new  York" and "New York", or coordinates differing past 4 decimals.
+ */
+export function normalizeQuery(query: string): string {
+  const compact = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const coords = COORDINATE_PATTERN.exec(compact.replace(/\s/g, ''));
+  if (coords) {
+    return `${parseFloat(coords[1]).toFixed(4)},${parseFloat(coords[2]).toFixed(4)}`;
+  }
+  return compact;
+}
+
+/**
+ * WeatherService with an in-memory response cache. Fresh entries are returned
+ * directly; stale entries are returned immediately while a background request
+ * revalidates them, and subscribers are told when new data arrives. Identical
+ * requests that overlap share a single network call; aborting one caller's
+ * signal rejects only that caller, and the shared call (including its
+ * retries) is cancelled once every caller has aborted. Background
+ * revalidations are never cancelled. Entries are keyed by the requested
+ * language, so switching languages never serves texts in the previous one.
+ */
+export class CachedWeatherService extends WeatherService {
+  private options: CacheOptions;
+  private entries: Map<string, CacheEntry<unknown>> = new Map();
+  private inFlight: Map<string, InFlightRequest<unknown>> = new Map();
+  private listeners: Set<RevalidateListener> = new Set();
+
+  constructor(provider?: WeatherProvider, options: Partial<CacheOptions> = {}) {
+    super(provider);
+    this.options = {
+      ...DEFAULT_CACHE_OPTIONS,
+      ...options,
+      ttlMs: { ...DEFAULT_CACHE_OPTIONS.ttlMs, ...options.ttlMs },
+    };
+  }
+
+  override async getCurrentWeather(city: string, signal?: AbortSignal): Promise<WeatherData> {
+    return this.getWithRevalidation(
+      { type: 'current', query: city },
+      `current:${this.getLanguage()}:${normalizeQuery(city)}`,
+      (shared) => super.getCurrentWeather(city, shared),
+      signal
+    );
+  }
+
+  override async getForecast(
+    city: string,
+    days: number = API_CONFIG.DEFAULT_FORECAST_DAYS,
+    signal?: AbortSignal
+  ): Promise<WeatherData> {
+    return this.getWithRevalidation(
+      { type: 'forecast', query: city, days },
+      `forecast:${this.getLanguage()}:${normalizeQuery(city)}:${days}`,
+      (shared) => super.getForecast(city, days, shared),
+      signal
+    );
+  }
+
+  override async getHistory(location: string, date: string, signal?: AbortSignal): Promise<WeatherHistory> {
+    return this.getFreshOrFetch(
+      'history',
+      `history:${this.getLanguage()}:${normalizeQuery(location)}:${date}`,
+      (shared) => super.getHistory(location, date, shared),
+      signal
+    );
+  }
+
+  override async searchLocations(query: string, signal?: AbortSignal): Promise<LocationSuggestion[]> {
+    return this.getFreshOrFetch(
+      'search',
+      `search:${this.getLanguage()}:${normalizeQuery(query)}`,
+      (shared) => super.searchLocations(query, shared),
+      signal
+    );
+  }
+
+  /**
+   * Subscribes to background revalidation results.
+   * @param callback - Called with fresh data whenever a stale entry is revalidated
+   * @returns An unsubscribe function
+   */
+  subscribe(callback: RevalidateListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Drops every cached response. In-flight requests are left to finish.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Returns a cached entry younger than its TTL, otherwise fetches it.
+   * Used for responses that are not worth serving stale.
+   */
+  private getFreshOrFetch<T>(
+    type: CachedRequestType,
+    key: string,
+    fetcher: Fetcher<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (entry && this.ageOf(entry) < this.options.ttlMs[type]) {
+      return Promise.resolve(entry.data);
+    }
+    return this.fetchAndStore(key, fetcher, signal);
+  }
+
+  private async getWithRevalidation(
+    request: RevalidationRequest,
+    key: string,
+    fetcher: Fetcher<WeatherData>,
+    signal?: AbortSignal
+  ): Promise<WeatherData> {
+    const entry = this.entries.get(key) as CacheEntry<WeatherData> | undefined;
+    if (entry) {
+      const age = this.ageOf(entry);
+      const ttl = this.options.ttlMs[request.type];
+
+      if (age < ttl) {
+        return entry.data;
+      }
+
+      if (age < ttl + this.options.maxStaleMs) {
+        this.fetchAndStore(key, fetcher)
+          .then((data) => this.notify({ ...request, data }))
+          .catch(() => {
+            // Keep serving the stale entry; the next request will retry
+          });
+        return entry.data;
+      }
+    }
+
+    return this.fetchAndStore(key, fetcher, signal);
+  }
+
+  /**
+   * Runs the fetcher unless an identical request is already in flight,
+   * and stores a successful result. The caller is counted until its signal
+   * aborts; a caller without a signal keeps the request alive to the end.
+   */
+  private fetchAndStore<T>(key: string, fetcher: Fetcher<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new AbortedError());
+
+    let request = this.inFlight.get(key) as InFlightRequest<T> | undefined;
+    if (!request) {
+      const controller = new AbortController();
+      const created: InFlightRequest<T> = {
+        controller,
+        callers: 0,
+        promise: fetcher(controller.signal)
+          .then((data) => {
+            this.store(key, data);
+            return data;
+          })
+          .finally(() => {
+            if (this.inFlight.get(key) === created) {
+              this.inFlight.delete(key);
+            }
+          }),
+      };
+      request = created;
+      this.inFlight.set(key, request);
+    }
+
+    const shared = request;
+    shared.callers++;
+    if (signal) {
+      const onAbort = () => {
+        shared.callers--;
+        if (shared.callers === 0) {
+          // Nobody is waiting any more: stop the request and its retries
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+          shared.controller.abort();
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        () => signal.removeEventListener('abort', onAbort),
+        () => signal.removeEventListener('abort', onAbort)
+      );
+    }
+
+    return abortable(shared.promise, signal);
+  }
+
+  private store(key: string, data: unknown): void {
+    // Re-insert so Map iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, { data, storedAt: Date.now() });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private ageOf(entry: CacheEntry<unknown>): number {
+    return Date.now() - entry.storedAt;
+  }
+
+  private notify(event: RevalidatedEvent): void {
+    for (const callback of this.listeners) {
+      try {
+        callback(event);
+      } catch {
+        // Prevent one broken subscriber from blocking others
+      }
+    }
+  }
+}
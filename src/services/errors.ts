@@ -0,0 +1,122 @@
+import type { LocationSuggestion } from '../types/weather';
+
+interface WeatherServiceErrorOptions {
+  status?: number | null;
+  retryable?: boolean;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the weather service. Carries the HTTP
+ * status (when there was a response) and hints for whether and when the
+ * request may be retried.
+ */
+export class WeatherServiceError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+  readonly cause: unknown;
+
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message);
+    this.name = 'WeatherServiceError';
+    this.status = options.status ?? null;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The API key is missing, invalid or disabled.
+ */
+export class AuthError extends WeatherServiceError {
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * The query did not match any location. `suggestions` may be filled in
+ * afterwards with close matches to offer the user.
+ */
+export class NotFoundError extends WeatherServiceError {
+  readonly query: string;
+  suggestions: LocationSuggestion[] = [];
+
+  constructor(message: string, query: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = 'NotFoundError';
+    this.query = query;
+  }
+}
+
+/**
+ * Too many requests, or the plan's quota is used up. Retryable only when
+ * the provider says when to come back.
+ */
+export class RateLimitError extends WeatherServiceError {
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: options.retryable ?? options.retryAfterMs != null });
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, connection reset).
+ */
+export class NetworkError extends WeatherServiceError {
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The request took longer than the configured timeout.
+ */
+export class TimeoutError extends WeatherServiceError {
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The provider responded with a 5xx status.
+ */
+export class ServerError extends WeatherServiceError {
+  constructor(message: string, options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: true });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal, typically because a
+ * newer request superseded it. Callers should ignore it rather than show it.
+ */
+export class AbortedError extends WeatherServiceError {
+  constructor(message: string = 'Request was aborted', options: WeatherServiceErrorOptions = {}) {
+    super(message, { ...options, retryable: false });
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Parses a Retry-After header given either as delta-seconds or an HTTP date.
+ * @returns The delay in milliseconds, or null if absent or unparseable
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
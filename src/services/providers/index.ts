@@ -0,0 +1,24 @@
+import { API_CONFIG, type WeatherProviderId } from '../../config/api';
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { WeatherApiProvider } from './weatherApiProvider';
+import type { WeatherProvider } from './weatherProvider';
+
+export type { WeatherProvider } from './weatherProvider';
+export { WeatherApiProvider } from './weatherApiProvider';
+export { OpenMeteoProvider } from './openMeteoProvider';
+
+/**
+ * Creates the weather provider selected in configuration.
+ * @param id - Provider identifier, defaults to API_CONFIG.PROVIDER
+ */
+export function createWeatherProvider(id: WeatherProviderId = API_CONFIG.PROVIDER): WeatherProvider {
+  switch (id) {
+    case 'open-meteo':
+      return new OpenMeteoProvider();
+    case 'weatherapi':
+      return new WeatherApiProvider();
+    default:
+      console.warn(`[WeatherService] Unknown provider "${id as string}", using WeatherAPI.com`);
+      return new WeatherApiProvider();
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  OpenMeteoAirQualityResponse,
+  OpenMeteoForecastResponse,
+  OpenMeteoGeocodingResponse,
+  OpenMeteoHistoryResponse,
+} from '../../types/openMeteo';
+import {
+  transformOpenMeteoAirQuality,
+  transformOpenMeteoHistory,
+  transformOpenMeteoResponse,
+  transformOpenMeteoSearch,
+} from './openMeteoProvider';
+import airQualityFixture from './__fixtures__/openmeteo-air-quality.json';
+import forecastFixture from './__fixtures__/openmeteo-forecast.json';
+import historyFixture from './__fixtures__/openmeteo-history.json';
+import searchFixture from './__fixtures__/openmeteo-search.json';
+
+const forecast: OpenMeteoForecastResponse = forecastFixture;
+const history: OpenMeteoHistoryResponse = historyFixture;
+const airQuality: OpenMeteoAirQualityResponse = airQualityFixture;
+const search: OpenMeteoGeocodingResponse = searchFixture;
+
+const LONDON = { name: 'London', country: 'United Kingdom', lat: 51.51, lon: -0.13 };
+
+describe('transformOpenMeteoResponse', () => {
+  const data = transformOpenMeteoResponse(forecast, LONDON);
+
+  it('uses the resolved location with the response time zone', () => {
+    expect(data.location).toEqual({
+      ...LONDON,
+      tzId: 'Europe/London',
+      localTime: '2024-06-01 09:00',
+    });
+  });
+
+  it('maps current conditions from the WMO code', () => {
+    expect(data.current).toMatchObject({
+      temperature: 16.1,
+      condition: 'Partly cloudy',
+      category: 'partly-cloudy',
+      isDay: true,
+      humidity: 71,
+      pressure: 1016.3,
+      visibility: 24.14,
+      uvIndex: 3.85,
+      icon: '//cdn.weatherapi.com/weather/64x64/day/116.png',
+      airQuality: null,
+    });
+    expect(data.alerts).toEqual([]);
+  });
+
+  it('groups hours into their local day and converts times to UTC epochs', () => {
+    expect(data.forecast.map((day) => day.hours.map((hour) => hour.time))).toEqual([
+      ['2024-06-01T08:00', '2024-06-01T23:00'],
+      ['2024-06-02T00:00', '2024-06-02T12:00'],
+    ]);
+    expect(data.forecast[0].hours[0].timeEpoch).toBe(Date.UTC(2024, 5, 1, 7) / 1000);
+    expect(data.forecast[0].hours[1]).toMatchObject({ condition: 'Light rain', icon: '//cdn.weatherapi.com/weather/64x64/night/296.png' });
+  });
+
+  it('attributes the precipitation probability to snow on days with snowfall', () => {
+    expect(data.forecast[0]).toMatchObject({ chanceOfRain: 45, chanceOfSnow: 0, condition: 'Light rain' });
+    expect(data.forecast[1]).toMatchObject({
+      chanceOfRain: 0,
+      chanceOfSnow: 80,
+      minTemp: -1.2,
+      humidity: 81,
+      astro: { sunrise: '04:45', sunset: '21:09' },
+    });
+  });
+
+  it('passes air quality through', () => {
+    const quality = transformOpenMeteoAirQuality(airQuality);
+    expect(transformOpenMeteoResponse(forecast, LONDON, quality).current.airQuality).toBe(quality);
+  });
+});
+
+describe('transformOpenMeteoHistory', () => {
+  it('maps the observed day', () => {
+    const result = transformOpenMeteoHistory(history, LONDON);
+    expect(result.day).toMatchObject({
+      date: '2023-06-01',
+      condition: 'Moderate rain',
+      chanceOfRain: 100,
+      chanceOfSnow: 0,
+      totalPrecipitation: 3.1,
+      maxUvIndex: 0,
+    });
+    expect(result.day.hours.map((hour) => hour.chanceOfPrecipitation)).toEqual([0, 100]);
+  });
+});
+
+describe('transformOpenMeteoAirQuality', () => {
+  it('derives the EPA category and the worse DEFRA particulate band', () => {
+    expect(transformOpenMeteoAirQuality(airQuality)).toEqual({
+      pm2_5: 12.1,
+      pm10: 52,
+      o3: 58,
+      no2: 21.7,
+      so2: 2.9,
+      co: 201,
+      usEpaIndex: 2,
+      gbDefraIndex: 4,
+    });
+  });
+});
+
+describe('transformOpenMeteoSearch', () => {
+  it('maps results, defaulting missing country and region', () => {
+    expect(transformOpenMeteoSearch(search)).toEqual([
+      { name: 'London', country: 'United Kingdom', region: 'England', lat: 51.50853, lon: -0.12574 },
+      { name: 'London Village', country: '', region: '', lat: 1.98487, lon: -157.47502 },
+    ]);
+  });
+
+  it('returns no suggestions when nothing matched', () => {
+    expect(transformOpenMeteoSearch({})).toEqual([]);
+  });
+});
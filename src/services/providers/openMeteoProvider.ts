@@ -0,0 +1,559 @@
+import axios from 'axios';
+import { API_CONFIG } from '../../config/api';
+import type {
+  WeatherData,
+  WeatherHistory,
+  DayForecast,
+  HourForecast,
+  LocationSuggestion,
+  AirQuality,
+  ConditionCategory,
+} from '../../types/weather';
+import type {
+  OpenMeteoAirQualityResponse,
+  OpenMeteoForecastResponse,
+  OpenMeteoGeocodingResponse,
+  OpenMeteoGeocodingResult,
+  OpenMeteoHistoryResponse,
+} from '../../types/openMeteo';
+import { NotFoundError } from '../errors';
+import type { WeatherProvider } from './weatherProvider';
+
+const { REQUEST_TIMEOUT_MS } = API_CONFIG;
+const {
+  BASE_URL,
+  GEOCODING_URL,
+  AIR_QUALITY_URL,
+  ARCHIVE_URL,
+  ENDPOINTS,
+  SEARCH_RESULT_COUNT,
+  MAX_FORECAST_DAYS,
+} = API_CONFIG.OPEN_METEO;
+
+const COORDINATE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+const CURRENT_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'weather_code',
+  'wind_speed_10m',
+  'pressure_msl',
+  'visibility',
+  'uv_index',
+  'is_day',
+].join(',');
+
+const DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'relative_humidity_2m_mean',
+  'wind_speed_10m_max',
+  'precipitation_sum',
+  'precipitation_probability_max',
+  'snowfall_sum',
+  'uv_index_max',
+  'sunrise',
+  'sunset',
+].join(',');
+
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'precipitation_probability',
+  'wind_speed_10m',
+  'weather_code',
+  'is_day',
+].join(',');
+
+const HISTORY_DAILY_FIELDS = [
+  'weather_code',
+  'temperature_2m_max',
+  'temperature_2m_min',
+  'relative_humidity_2m_mean',
+  'wind_speed_10m_max',
+  'precipitation_sum',
+  'snowfall_sum',
+  'sunrise',
+  'sunset',
+].join(',');
+
+const HISTORY_HOURLY_FIELDS = [
+  'temperature_2m',
+  'apparent_temperature',
+  'precipitation',
+  'wind_speed_10m',
+  'weather_code',
+  'is_day',
+].join(',');
+
+const AIR_QUALITY_FIELDS = [
+  'pm10',
+  'pm2_5',
+  'carbon_monoxide',
+  'nitrogen_dioxide',
+  'sulphur_dioxide',
+  'ozone',
+  'us_aqi',
+].join(',');
+
+// Upper AQI bound of each US EPA category (Good … Very Unhealthy); above is Hazardous
+const US_AQI_BREAKPOINTS = [50, 100, 150, 200, 300];
+
+// Upper concentration bound (µg/m³) of DEFRA index bands 1–9; above is band 10
+const DEFRA_PM2_5_BREAKPOINTS = [11, 23, 35, 41, 47, 53, 58, 64, 70];
+const DEFRA_PM10_BREAKPOINTS = [16, 33, 50, 58, 66, 75, 83, 91, 100];
+
+/**
+ * WMO weather interpretation codes mapped to a condition label and the
+ * matching WeatherAPI.com icon code, so both providers share one icon set.
+ */
+const WMO_CONDITIONS: Record<number, { text: string; iconCode: number }> = {
+  0: { text: 'Clear', iconCode: 113 },
+  1: { text: 'Mainly clear', iconCode: 116 },
+  2: { text: 'Partly cloudy', iconCode: 116 },
+  3: { text: 'Overcast', iconCode: 122 },
+  45: { text: 'Fog', iconCode: 248 },
+  48: { text: 'Freezing fog', iconCode: 260 },
+  51: { text: 'Light drizzle', iconCode: 266 },
+  53: { text: 'Drizzle', iconCode: 266 },
+  55: { text: 'Heavy drizzle', iconCode: 266 },
+  56: { text: 'Light freezing drizzle', iconCode: 281 },
+  57: { text: 'Heavy freezing drizzle', iconCode: 284 },
+  61: { text: 'Light rain', iconCode: 296 },
+  63: { text: 'Moderate rain', iconCode: 302 },
+  65: { text: 'Heavy rain', iconCode: 308 },
+  66: { text: 'Light freezing rain', iconCode: 311 },
+  67: { text: 'Heavy freezing rain', iconCode: 314 },
+  71: { text: 'Light snow', iconCode: 326 },
+  73: { text: 'Moderate snow', iconCode: 332 },
+  75: { text: 'Heavy snow', iconCode: 338 },
+  77: { text: 'Snow grains', iconCode: 350 },
+  80: { text: 'Light rain showers', iconCode: 353 },
+  81: { text: 'Rain showers', iconCode: 356 },
+  82: { text: 'Torrential rain showers', iconCode: 359 },
+  85: { text: 'Light snow showers', iconCode: 368 },
+  86: { text: 'Heavy snow showers', iconCode: 371 },
+  95: { text: 'Thunderstorm', iconCode: 389 },
+  96: { text: 'Thunderstorm with hail', iconCode: 395 },
+  99: { text: 'Thunderstorm with heavy hail', iconCode: 395 },
+};
+
+// Reference new moon (2000-01-06 18:14 UTC) and mean synodic month length
+const REFERENCE_NEW_MOON_MS = Date.UTC(2000, 0, 6, 18, 14);
+const SYNODIC_MONTH_DAYS = 29.530588853;
+const MOON_PHASES = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent',
+];
+
+type ResolvedLocation = Pick<WeatherData['location'], 'name' | 'country' | 'lat' | 'lon'>;
+
+/**
+ * Adapter for Open-Meteo. Requires no API key; city names are resolved
+ * through the Open-Meteo geocoding API before fetching the forecast.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = 'open-meteo';
+  readonly maxForecastDays = MAX_FORECAST_DAYS;
+
+  private baseUrl: string;
+  private geocodingUrl: string;
+  private airQualityUrl: string;
+  private archiveUrl: string;
+  private language = 'en';
+
+  constructor(
+    baseUrl: string = BASE_URL,
+    geocodingUrl: string = GEOCODING_URL,
+    airQualityUrl: string = AIR_QUALITY_URL,
+    archiveUrl: string = ARCHIVE_URL
+  ) {
+    this.baseUrl = baseUrl;
+    this.geocodingUrl = geocodingUrl;
+    this.airQualityUrl = airQualityUrl;
+    this.archiveUrl = archiveUrl;
+  }
+
+  /**
+   * Open-Meteo only localizes geocoded place names; condition texts come
+   * from the English WMO code table.
+   */
+  setLanguage(language: string): void {
+    this.language = language;
+  }
+
+  async getCurrentWeather(query: string, signal?: AbortSignal): Promise<WeatherData> {
+    return this.getForecast(query, 1, signal);
+  }
+
+  async getForecast(query: string, days: number, signal?: AbortSignal): Promise<WeatherData> {
+    const location = await this.resolveLocation(query, signal);
+    const [response, airQuality] = await Promise.all([
+      axios.get<OpenMeteoForecastResponse>(
+        `${this.baseUrl}${ENDPOINTS.FORECAST}`,
+        {
+          timeout: REQUEST_TIMEOUT_MS,
+          signal,
+          params: {
+            latitude: location.lat,
+            longitude: location.lon,
+            current: CURRENT_FIELDS,
+            daily: DAILY_FIELDS,
+            hourly: HOURLY_FIELDS,
+            forecast_days: days,
+            timezone: 'auto',
+          },
+        }
+      ),
+      this.fetchAirQuality(location, signal),
+    ]);
+
+    return transformOpenMeteoResponse(response.data, location, airQuality);
+  }
+
+  async getHistory(query: string, date: string, signal?: AbortSignal): Promise<WeatherHistory> {
+    const location = await this.resolveLocation(query, signal);
+    const response = await axios.get<OpenMeteoHistoryResponse>(
+      `${this.archiveUrl}${ENDPOINTS.ARCHIVE}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          latitude: location.lat,
+          longitude: location.lon,
+          start_date: date,
+          end_date: date,
+          daily: HISTORY_DAILY_FIELDS,
+          hourly: HISTORY_HOURLY_FIELDS,
+          timezone: 'auto',
+        },
+      }
+    );
+
+    return transformOpenMeteoHistory(response.data, location);
+  }
+
+  async searchLocations(query: string, signal?: AbortSignal): Promise<LocationSuggestion[]> {
+    const coords = parseCoordinates(query);
+    if (coords) {
+      // Open-Meteo has no reverse geocoding, so coordinates stand in for the name
+      return [{ ...coords, region: '' }];
+    }
+
+    const response = await axios.get<OpenMeteoGeocodingResponse>(
+      `${this.geocodingUrl}${ENDPOINTS.SEARCH}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          name: query,
+          count: SEARCH_RESULT_COUNT,
+          language: this.language,
+          format: 'json',
+        },
+      }
+    );
+
+    return transformOpenMeteoSearch(response.data);
+  }
+
+  /**
+   * Air quality comes from a separate service; a failure there should not
+   * prevent the forecast from loading, so it resolves to null instead.
+   */
+  private async fetchAirQuality(location: ResolvedLocation, signal?: AbortSignal): Promise<AirQuality | null> {
+    try {
+      const response = await axios.get<OpenMeteoAirQualityResponse>(
+        `${this.airQualityUrl}${ENDPOINTS.AIR_QUALITY}`,
+        {
+          timeout: REQUEST_TIMEOUT_MS,
+          signal,
+          params: {
+            latitude: location.lat,
+            longitude: location.lon,
+            current: AIR_QUALITY_FIELDS,
+          },
+        }
+      );
+      return transformOpenMeteoAirQuality(response.data);
+    } catch {
+      return null;
+    }
+  }
+
+  private async resolveLocation(query: string, signal?: AbortSignal): Promise<ResolvedLocation> {
+    const coords = parseCoordinates(query);
+    if (coords) {
+      return coords;
+    }
+
+    const response = await axios.get<OpenMeteoGeocodingResponse>(
+      `${this.geocodingUrl}${ENDPOINTS.SEARCH}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          name: query,
+          count: 1,
+          language: this.language,
+          format: 'json',
+        },
+      }
+    );
+
+    const match = response.data.results?.[0];
+    if (!match) {
+      throw new NotFoundError(`No location matches "${query}"`, query, { status: 404 });
+    }
+
+    return toSuggestion(match);
+  }
+}
+
+/**
+ * Transforms a raw Open-Meteo forecast response into the app's WeatherData interface.
+ * @param data - The forecast response
+ * @param location - The resolved location the forecast was requested for
+ * @param airQuality - Air quality fetched alongside the forecast, if available
+ */
+export function transformOpenMeteoResponse(
+  data: OpenMeteoForecastResponse,
+  location: ResolvedLocation,
+  airQuality: AirQuality | null = null
+): WeatherData {
+  const { current, daily, hourly } = data;
+  const currentCondition = describeWeatherCode(current.weather_code, current.is_day === 1);
+
+  const hours: HourForecast[] = hourly.time.map((time, i) => {
+    const condition = describeWeatherCode(hourly.weather_code[i], hourly.is_day[i] === 1);
+    return {
+      time,
+      // Local times come without an offset; shift by the location's offset to get UTC
+      timeEpoch: Date.parse(`${time}:00Z`) / 1000 - data.utc_offset_seconds,
+      temperature: hourly.temperature_2m[i],
+      feelsLike: hourly.apparent_temperature[i],
+      chanceOfPrecipitation: hourly.precipitation_probability[i] ?? 0,
+      windSpeed: hourly.wind_speed_10m[i],
+      condition: condition.text,
+      icon: condition.icon,
+    };
+  });
+
+  const forecast: DayForecast[] = daily.time.map((date, i) => {
+    const condition = describeWeatherCode(daily.weather_code[i], true);
+    const precipitationChance = daily.precipitation_probability_max[i] ?? 0;
+    const hasSnow = (daily.snowfall_sum[i] ?? 0) > 0;
+    return {
+      date,
+      maxTemp: daily.temperature_2m_max[i],
+      minTemp: daily.temperature_2m_min[i],
+      condition: condition.text,
+      description: condition.text,
+      icon: condition.icon,
+      humidity: Math.round(daily.relative_humidity_2m_mean[i]),
+      windSpeed: daily.wind_speed_10m_max[i],
+      // Open-Meteo reports one precipitation probability; attribute it by snowfall
+      chanceOfRain: hasSnow ? 0 : precipitationChance,
+      chanceOfSnow: hasSnow ? precipitationChance : 0,
+      totalPrecipitation: daily.precipitation_sum[i] ?? 0,
+      maxUvIndex: daily.uv_index_max[i] ?? 0,
+      astro: {
+        sunrise: daily.sunrise[i] ? daily.sunrise[i].slice(11, 16) : null,
+        sunset: daily.sunset[i] ? daily.sunset[i].slice(11, 16) : null,
+        moonPhase: getMoonPhase(date),
+      },
+      hours: hours.filter((hour) => hour.time.startsWith(date)),
+    };
+  });
+
+  return {
+    location: {
+      name: location.name,
+      country: location.country,
+      lat: location.lat,
+      lon: location.lon,
+      tzId: data.timezone,
+      localTime: current.time.replace('T', ' '),
+    },
+    current: {
+      temperature: current.temperature_2m,
+      condition: currentCondition.text,
+      description: currentCondition.text,
+      category: categorizeWeatherCode(current.weather_code),
+      isDay: current.is_day === 1,
+      humidity: current.relative_humidity_2m,
+      windSpeed: current.wind_speed_10m,
+      pressure: current.pressure_msl,
+      visibility: current.visibility / 1000,
+      uvIndex: current.uv_index,
+      icon: currentCondition.icon,
+      airQuality,
+    },
+    forecast,
+    // Open-Meteo does not publish weather warnings
+    alerts: [],
+  };
+}
+
+/**
+ * Transforms a raw Open-Meteo archive response for a single day into the
+ * app's WeatherHistory interface.
+ * @param data - The archive response
+ * @param location - The resolved location the history was requested for
+ */
+export function transformOpenMeteoHistory(
+  data: OpenMeteoHistoryResponse,
+  location: ResolvedLocation
+): WeatherHistory {
+  const { daily, hourly } = data;
+  const date = daily.time[0];
+  if (!date) {
+    throw new NotFoundError(`No observations for "${location.name}"`, location.name, { status: 404 });
+  }
+
+  const hours: HourForecast[] = hourly.time.map((time, i) => {
+    const condition = describeWeatherCode(hourly.weather_code[i], hourly.is_day[i] === 1);
+    return {
+      time,
+      timeEpoch: Date.parse(`${time}:00Z`) / 1000 - data.utc_offset_seconds,
+      temperature: hourly.temperature_2m[i],
+      feelsLike: hourly.apparent_temperature[i],
+      // Observations have no probability; report whether any precipitation fell
+      chanceOfPrecipitation: (hourly.precipitation[i] ?? 0) > 0 ? 100 : 0,
+      windSpeed: hourly.wind_speed_10m[i],
+      condition: condition.text,
+      icon: condition.icon,
+    };
+  });
+
+  const condition = describeWeatherCode(daily.weather_code[0], true);
+  const precipitation = daily.precipitation_sum[0] ?? 0;
+  const hasSnow = (daily.snowfall_sum[0] ?? 0) > 0;
+
+  return {
+    location: {
+      name: location.name,
+      country: location.country,
+      lat: location.lat,
+      lon: location.lon,
+      tzId: data.timezone,
+    },
+    day: {
+      date,
+      maxTemp: daily.temperature_2m_max[0],
+      minTemp: daily.temperature_2m_min[0],
+      condition: condition.text,
+      description: condition.text,
+      icon: condition.icon,
+      humidity: Math.round(daily.relative_humidity_2m_mean[0]),
+      windSpeed: daily.wind_speed_10m_max[0],
+      chanceOfRain: precipitation > 0 && !hasSnow ? 100 : 0,
+      chanceOfSnow: hasSnow ? 100 : 0,
+      totalPrecipitation: precipitation,
+      // The archive has no UV data
+      maxUvIndex: 0,
+      astro: {
+        sunrise: daily.sunrise[0] ? daily.sunrise[0].slice(11, 16) : null,
+        sunset: daily.sunset[0] ? daily.sunset[0].slice(11, 16) : null,
+        moonPhase: getMoonPhase(date),
+      },
+      hours,
+    },
+  };
+}
+
+/**
+ * Transforms a raw Open-Meteo air quality response into the app's AirQuality interface,
+ * deriving the EPA category from the US AQI and the DEFRA band from particulates.
+ */
+export function transformOpenMeteoAirQuality(data: OpenMeteoAirQualityResponse): AirQuality {
+  const { current } = data;
+  return {
+    pm2_5: current.pm2_5,
+    pm10: current.pm10,
+    o3: current.ozone,
+    no2: current.nitrogen_dioxide,
+    so2: current.sulphur_dioxide,
+    co: current.carbon_monoxide,
+    usEpaIndex: toBand(current.us_aqi, US_AQI_BREAKPOINTS),
+    gbDefraIndex: Math.max(
+      toBand(current.pm2_5, DEFRA_PM2_5_BREAKPOINTS),
+      toBand(current.pm10, DEFRA_PM10_BREAKPOINTS)
+    ),
+  };
+}
+
+/**
+ * Transforms a raw Open-Meteo geocoding response into location suggestions.
+ */
+export function transformOpenMeteoSearch(data: OpenMeteoGeocodingResponse): LocationSuggestion[] {
+  return (data.results ?? []).map(toSuggestion);
+}
+
+function toSuggestion(result: OpenMeteoGeocodingResult): LocationSuggestion {
+  return {
+    name: result.name,
+    country: result.country ?? '',
+    region: result.admin1 ?? '',
+    lat: result.latitude,
+    lon: result.longitude,
+  };
+}
+
+function describeWeatherCode(code: number, isDay: boolean): { text: string; icon: string } {
+  const entry = WMO_CONDITIONS[code] ?? { text: 'Unknown', iconCode: 113 };
+  return {
+    text: entry.text,
+    icon: `//cdn.weatherapi.com/weather/64x64/${isDay ? 'day' : 'night'}/${entry.iconCode}.png`,
+  };
+}
+
+function categorizeWeatherCode(code: number): ConditionCategory {
+  if (code <= 1) return 'clear';
+  if (code === 2) return 'partly-cloudy';
+  if (code === 3) return 'cloudy';
+  if (code === 45 || code === 48) return 'fog';
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) return 'snow';
+  if (code >= 95) return 'thunder';
+  return 'rain';
+}
+
+/**
+ * Approximates the moon phase name for a date, since Open-Meteo has no astronomy data.
+ * @param date - Date as "YYYY-MM-DD"
+ */
+function getMoonPhase(date: string): string {
+  const days = (Date.parse(`${date}T12:00:00Z`) - REFERENCE_NEW_MOON_MS) / 86_400_000;
+  const age = ((days % SYNODIC_MONTH_DAYS) + SYNODIC_MONTH_DAYS) % SYNODIC_MONTH_DAYS;
+  const index = Math.round((age / SYNODIC_MONTH_DAYS) * MOON_PHASES.length) % MOON_PHASES.length;
+  return MOON_PHASES[index];
+}
+
+/**
+ * Returns the 1-based band a value falls into given ascending upper bounds.
+ */
+function toBand(value: number, breakpoints: number[]): number {
+  const index = breakpoints.findIndex((upper) => value <= upper);
+  return index === -1 ? breakpoints.length + 1 : index + 1;
+}
+
+function parseCoordinates(query: string): ResolvedLocation | null {
+  const match = COORDINATE_PATTERN.exec(query);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lon = parseFloat(match[2]);
+  return {
+    name: `${lat.toFixed(2)}, ${lon.toFixed(2)}`,
+    country: '',
+    lat,
+    lon,
+  };
+}
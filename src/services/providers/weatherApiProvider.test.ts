@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { WeatherApiResponse, WeatherApiSearchResult } from '../../types/weatherApi';
+import { NotFoundError } from '../errors';
+import {
+  transformWeatherApiHistory,
+  transformWeatherApiResponse,
+  transformWeatherApiSearch,
+} from './weatherApiProvider';
+import forecastFixture from './__fixtures__/weatherapi-forecast.json';
+import searchFixture from './__fixtures__/weatherapi-search.json';
+
+const forecast: WeatherApiResponse = forecastFixture;
+const search: WeatherApiSearchResult[] = searchFixture;
+
+describe('transformWeatherApiResponse', () => {
+  const data = transformWeatherApiResponse(forecast);
+
+  it('maps the location and zero-pads the local time', () => {
+    expect(data.location).toEqual({
+      name: 'London',
+      country: 'United Kingdom',
+      lat: 51.52,
+      lon: -0.11,
+      tzId: 'Europe/London',
+      localTime: '2024-06-01 09:05',
+    });
+  });
+
+  it('maps current conditions and air quality', () => {
+    expect(data.current).toMatchObject({
+      temperature: 16.2,
+      condition: 'Partly cloudy',
+      category: 'partly-cloudy',
+      isDay: true,
+      humidity: 72,
+      windSpeed: 13,
+      pressure: 1016,
+      visibility: 10,
+      uvIndex: 4,
+      icon: '//cdn.weatherapi.com/weather/64x64/day/116.png',
+    });
+    expect(data.current.airQuality).toMatchObject({ pm2_5: 6.4, pm10: 9.8, usEpaIndex: 1, gbDefraIndex: 1 });
+  });
+
+  it('maps forecast days with 24-hour astro times', () => {
+    expect(data.forecast).toHaveLength(2);
+    expect(data.forecast[0]).toMatchObject({
+      date: '2024-06-01',
+      maxTemp: 19.4,
+      minTemp: 11.8,
+      chanceOfRain: 64,
+      chanceOfSnow: 0,
+      totalPrecipitation: 0.4,
+      maxUvIndex: 5,
+      astro: { sunrise: '04:46', sunset: '21:08', moonPhase: 'Waning Crescent' },
+    });
+    expect(data.forecast[1].astro.sunset).toBeNull();
+  });
+
+  it('maps hours to ISO local times', () => {
+    expect(data.forecast[0].hours[1]).toEqual({
+      time: '2024-06-01T09:00',
+      timeEpoch: 1717228800,
+      temperature: 16,
+      feelsLike: 16,
+      chanceOfPrecipitation: 64,
+      windSpeed: 12.6,
+      condition: 'Patchy rain nearby',
+      icon: '//cdn.weatherapi.com/weather/64x64/day/176.png',
+    });
+  });
+
+  it('maps alerts with a normalized severity and a stable id', () => {
+    expect(data.alerts).toHaveLength(1);
+    expect(data.alerts[0]).toMatchObject({
+      severity: 'moderate',
+      event: 'Yellow warning of thunderstorm',
+      area: 'London & South East England',
+      expires: '2024-06-01T21:00:00+00:00',
+    });
+    expect(data.alerts[0].id).toBe(transformWeatherApiResponse(forecast).alerts[0].id);
+  });
+
+  it('tolerates responses without alerts or air quality', () => {
+    const { alerts: _alerts, ...rest } = forecast;
+    const { air_quality: _airQuality, ...current } = forecast.current;
+    const result = transformWeatherApiResponse({ ...rest, current });
+    expect(result.alerts).toEqual([]);
+    expect(result.current.airQuality).toBeNull();
+  });
+});
+
+describe('transformWeatherApiHistory', () => {
+  it('maps the first day of the response', () => {
+    const history = transformWeatherApiHistory(forecast);
+    expect(history.location.tzId).toBe('Europe/London');
+    expect(history.day.date).toBe('2024-06-01');
+    expect(history.day.hours).toHaveLength(2);
+  });
+
+  it('throws NotFoundError when there are no observations', () => {
+    expect(() =>
+      transformWeatherApiHistory({ location: forecast.location, forecast: { forecastday: [] } })
+    ).toThrow(NotFoundError);
+  });
+});
+
+describe('transformWeatherApiSearch', () => {
+  it('maps results to location suggestions', () => {
+    expect(transformWeatherApiSearch(search)).toEqual([
+      { name: 'London', country: 'United Kingdom', region: 'City of London, Greater London', lat: 51.52, lon: -0.11 },
+      { name: 'London', country: 'Canada', region: 'Ontario', lat: 42.98, lon: -81.25 },
+    ]);
+  });
+});
@@ -0,0 +1,312 @@
+import axios from 'axios';
+import { API_CONFIG } from '../../config/api';
+import type {
+  WeatherData,
+  WeatherHistory,
+  DayForecast,
+  HourForecast,
+  LocationSuggestion,
+  WeatherAlert,
+  AlertSeverity,
+  AirQuality,
+  ConditionCategory,
+} from '../../types/weather';
+import type {
+  WeatherApiResponse,
+  WeatherApiHistoryResponse,
+  WeatherApiForecastDay,
+  WeatherApiHour,
+  WeatherApiAlert,
+  WeatherApiSearchResult,
+} from '../../types/weatherApi';
+import { NotFoundError } from '../errors';
+import type { WeatherProvider } from './weatherProvider';
+
+const { REQUEST_TIMEOUT_MS } = API_CONFIG;
+const { BASE_URL, API_KEY, ENDPOINTS, DEFAULT_PARAMS, MAX_FORECAST_DAYS } = API_CONFIG.WEATHER_API;
+
+// Responses are in English unless another "lang" is requested
+const DEFAULT_LANGUAGE = 'en';
+
+// WeatherAPI.com condition codes outside the clear/cloudy range; everything else is rain
+const FOG_CODES = [1030, 1135, 1147];
+const THUNDER_CODES = [1087, 1273, 1276, 1279, 1282];
+// Snow, sleet and ice pellets
+const SNOW_CODES = [
+  1066, 1069, 1114, 1117, 1204, 1207, 1210, 1213, 1216, 1219, 1222, 1225, 1237, 1249, 1252, 1255, 1258, 1261, 1264,
+];
+
+/**
+ * Adapter for WeatherAPI.com.
+ */
+export class WeatherApiProvider implements WeatherProvider {
+  readonly id = 'weatherapi';
+  readonly maxForecastDays = MAX_FORECAST_DAYS;
+
+  private apiKey: string;
+  private baseUrl: string;
+  private language = DEFAULT_LANGUAGE;
+
+  constructor(apiKey: string = API_KEY, baseUrl: string = BASE_URL) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  setLanguage(language: string): void {
+    this.language = language;
+  }
+
+  async getCurrentWeather(query: string, signal?: AbortSignal): Promise<WeatherData> {
+    return this.fetchForecast(query, 1, signal);
+  }
+
+  async getForecast(query: string, days: number, signal?: AbortSignal): Promise<WeatherData> {
+    return this.fetchForecast(query, days, signal);
+  }
+
+  async getHistory(query: string, date: string, signal?: AbortSignal): Promise<WeatherHistory> {
+    const response = await axios.get<WeatherApiHistoryResponse>(
+      `${this.baseUrl}${ENDPOINTS.HISTORY}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          key: this.apiKey,
+          q: query,
+          dt: date,
+          lang: this.getLangParam(),
+        },
+      }
+    );
+
+    return transformWeatherApiHistory(response.data);
+  }
+
+  async searchLocations(query: string, signal?: AbortSignal): Promise<LocationSuggestion[]> {
+    const response = await axios.get<WeatherApiSearchResult[]>(
+      `${this.baseUrl}${ENDPOINTS.SEARCH}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          key: this.apiKey,
+          q: query,
+        },
+      }
+    );
+
+    return transformWeatherApiSearch(response.data);
+  }
+
+  private async fetchForecast(query: string, days: number, signal?: AbortSignal): Promise<WeatherData> {
+    const response = await axios.get<WeatherApiResponse>(
+      `${this.baseUrl}${ENDPOINTS.FORECAST}`,
+      {
+        timeout: REQUEST_TIMEOUT_MS,
+        signal,
+        params: {
+          key: this.apiKey,
+          q: query,
+          days,
+          aqi: DEFAULT_PARAMS.aqi,
+          alerts: DEFAULT_PARAMS.alerts,
+          lang: this.getLangParam(),
+        },
+      }
+    );
+
+    return transformWeatherApiResponse(response.data);
+  }
+
+  /**
+   * The "lang" parameter for condition texts, omitted for the default language.
+   */
+  private getLangParam(): string | undefined {
+    return this.language === DEFAULT_LANGUAGE ? undefined : this.language;
+  }
+}
+
+/**
+ * Transforms a raw WeatherAPI forecast response into the app's WeatherData interface.
+ */
+export function transformWeatherApiResponse(data: WeatherApiResponse): WeatherData {
+  const forecast: DayForecast[] = (data.forecast?.forecastday ?? []).map(transformWeatherApiDay);
+
+  return {
+    location: {
+      name: data.location.name,
+      country: data.location.country,
+      lat: data.location.lat,
+      lon: data.location.lon,
+      tzId: data.location.tz_id,
+      localTime: normalizeLocalTime(data.location.localtime),
+    },
+    current: {
+      temperature: data.current.temp_c,
+      condition: data.current.condition.text,
+      description: data.current.condition.text,
+      category: categorizeCondition(data.current.condition.code),
+      isDay: data.current.is_day === 1,
+      humidity: data.current.humidity,
+      windSpeed: data.current.wind_kph,
+      pressure: data.current.pressure_mb,
+      visibility: data.current.vis_km,
+      uvIndex: data.current.uv,
+      icon: data.current.condition.icon,
+      airQuality: transformWeatherApiAirQuality(data.current.air_quality),
+    },
+    forecast,
+    alerts: (data.alerts?.alert ?? []).map(transformWeatherApiAlert),
+  };
+}
+
+/**
+ * Transforms a raw WeatherAPI history response into the app's WeatherHistory interface.
+ */
+export function transformWeatherApiHistory(data: WeatherApiHistoryResponse): WeatherHistory {
+  const day = data.forecast?.forecastday?.[0];
+  if (!day) {
+    throw new NotFoundError(`No observations for "${data.location.name}"`, data.location.name, { status: 404 });
+  }
+
+  return {
+    location: {
+      name: data.location.name,
+      country: data.location.country,
+      lat: data.location.lat,
+      lon: data.location.lon,
+      tzId: data.location.tz_id,
+    },
+    day: transformWeatherApiDay(day),
+  };
+}
+
+function transformWeatherApiDay(day: WeatherApiForecastDay): DayForecast {
+  return {
+    date: day.date,
+    maxTemp: day.day.maxtemp_c,
+    minTemp: day.day.mintemp_c,
+    condition: day.day.condition.text,
+    description: day.day.condition.text,
+    icon: day.day.condition.icon,
+    humidity: day.day.avghumidity,
+    windSpeed: day.day.maxwind_kph,
+    chanceOfRain: day.day.daily_chance_of_rain,
+    chanceOfSnow: day.day.daily_chance_of_snow,
+    totalPrecipitation: day.day.totalprecip_mm,
+    maxUvIndex: day.day.uv,
+    astro: {
+      sunrise: parseAstroTime(day.astro.sunrise),
+      sunset: parseAstroTime(day.astro.sunset),
+      moonPhase: day.astro.moon_phase,
+    },
+    hours: (day.hour ?? []).map(transformWeatherApiHour),
+  };
+}
+
+function categorizeCondition(code: number): ConditionCategory {
+  if (code === 1000) return 'clear';
+  if (code === 1003) return 'partly-cloudy';
+  if (code === 1006 || code === 1009) return 'cloudy';
+  if (FOG_CODES.includes(code)) return 'fog';
+  if (THUNDER_CODES.includes(code)) return 'thunder';
+  if (SNOW_CODES.includes(code)) return 'snow';
+  return 'rain';
+}
+
+/**
+ * Zero-pads the hour of WeatherAPI's "YYYY-MM-DD H:mm" local time.
+ */
+function normalizeLocalTime(value: string): string {
+  const [date, time = ''] = value.trim().split(' ');
+  return `${date} ${time.padStart(5, '0')}`;
+}
+
+/**
+ * Converts WeatherAPI's "hh:mm AM" astro times to "HH:mm". Returns null for
+ * placeholders such as "No sunrise".
+ */
+function parseAstroTime(value: string): string | null {
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(value.trim());
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10) % 12;
+  if (match[3].toUpperCase() === 'PM') {
+    hours += 12;
+  }
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+function transformWeatherApiHour(hour: WeatherApiHour): HourForecast {
+  return {
+    time: hour.time.replace(' ', 'T'),
+    timeEpoch: hour.time_epoch,
+    temperature: hour.temp_c,
+    feelsLike: hour.feelslike_c,
+    chanceOfPrecipitation: Math.max(hour.chance_of_rain, hour.chance_of_snow),
+    windSpeed: hour.wind_kph,
+    condition: hour.condition.text,
+    icon: hour.condition.icon,
+  };
+}
+
+function transformWeatherApiAirQuality(
+  airQuality: WeatherApiResponse['current']['air_quality']
+): AirQuality | null {
+  if (!airQuality) return null;
+
+  return {
+    pm2_5: airQuality.pm2_5,
+    pm10: airQuality.pm10,
+    o3: airQuality.o3,
+    no2: airQuality.no2,
+    so2: airQuality.so2,
+    co: airQuality.co,
+    usEpaIndex: airQuality['us-epa-index'],
+    gbDefraIndex: airQuality['gb-defra-index'],
+  };
+}
+
+function transformWeatherApiAlert(alert: WeatherApiAlert): WeatherAlert {
+  return {
+    // WeatherAPI alerts carry no identifier, so derive one from their identifying fields
+    id: hashString(`${alert.event}|${alert.effective}|${alert.areas}`),
+    severity: normalizeSeverity(alert.severity),
+    event: alert.event,
+    headline: alert.headline,
+    area: alert.areas,
+    effective: alert.effective,
+    expires: alert.expires,
+    description: alert.desc,
+    instruction: alert.instruction,
+  };
+}
+
+function normalizeSeverity(severity: string): AlertSeverity {
+  const value = severity.trim().toLowerCase();
+  if (value === 'extreme' || value === 'severe' || value === 'moderate' || value === 'minor') {
+    return value;
+  }
+  return 'unknown';
+}
+
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Transforms raw WeatherAPI search results into location suggestions.
+ */
+export function transformWeatherApiSearch(results: WeatherApiSearchResult[]): LocationSuggestion[] {
+  return results.map((item) => ({
+    name: item.name,
+    country: item.country,
+    region: item.region,
+    lat: item.lat,
+    lon: item.lon,
+  }));
+}
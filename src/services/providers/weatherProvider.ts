@@ -0,0 +1,55 @@
+import type { WeatherData, WeatherHistory, LocationSuggestion } from '../../types/weather';
+
+/**
+ * Contract every weather data source must fulfil. Adapters translate their
+ * vendor's API into the app's WeatherData and LocationSuggestion types so the
+ * rest of the app never sees a vendor-specific shape. Every method accepts an
+ * optional AbortSignal that must be forwarded to the underlying HTTP calls.
+ */
+export interface WeatherProvider {
+  /** Stable identifier used in configuration (e.g. "weatherapi"). */
+  readonly id: string;
+
+  /**
+   * Longest forecast, in days, the provider can return on its best plan.
+   * WeatherService lowers it when responses come back shorter.
+   */
+  readonly maxForecastDays: number;
+
+  /**
+   * Sets the language of condition texts and place names in later responses,
+   * as far as the vendor supports it.
+   * @param language - An ISO 639-1 code such as "de"
+   */
+  setLanguage(language: string): void;
+
+  /**
+   * Fetches current conditions plus today's forecast.
+   * @param query - A city name or a "lat,lon" coordinate pair
+   * @param signal - Aborts the request when triggered
+   */
+  getCurrentWeather(query: string, signal?: AbortSignal): Promise<WeatherData>;
+
+  /**
+   * Fetches current conditions and a multi-day forecast.
+   * @param query - A city name or a "lat,lon" coordinate pair
+   * @param days - Number of forecast days to retrieve
+   * @param signal - Aborts the request when triggered
+   */
+  getForecast(query: string, days: number, signal?: AbortSignal): Promise<WeatherData>;
+
+  /**
+   * Fetches observed conditions for a past day.
+   * @param query - A city name or a "lat,lon" coordinate pair
+   * @param date - The day as "YYYY-MM-DD" in the location's local time
+   * @param signal - Aborts the request when triggered
+   */
+  getHistory(query: string, date: string, signal?: AbortSignal): Promise<WeatherHistory>;
+
+  /**
+   * Searches for locations matching the given query.
+   * @param query - Free-text search or a "lat,lon" coordinate pair
+   * @param signal - Aborts the request when triggered
+   */
+  searchLocations(query: string, signal?: AbortSignal): Promise<LocationSuggestion[]>;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { DayForecast, WeatherData } from '../types/weather';
+import type { WeatherProvider } from './providers';
+import { WeatherService } from './weatherService';
+
+/**
+ * Provider that serves at most `planDays` forecast days, like a limited API plan.
+ */
+function createProvider(planDays: number): WeatherProvider & { requestedDays: number[] } {
+  const requestedDays: number[] = [];
+  const getForecast = async (_query: string, days: number) => {
+    requestedDays.push(days);
+    const forecast = Array.from({ length: Math.min(days, planDays) }, () => ({}) as DayForecast);
+    return { forecast } as WeatherData;
+  };
+
+  return {
+    id: 'test',
+    maxForecastDays: 14,
+    requestedDays,
+    setLanguage: () => {},
+    getCurrentWeather: (query) => getForecast(query, 1),
+    getForecast,
+    getHistory: () => Promise.reject(new Error('not implemented')),
+    searchLocations: async () => [],
+  };
+}
+
+describe('WeatherService forecast length', () => {
+  it("starts from the provider's maximum", () => {
+    expect(new WeatherService(createProvider(3)).getMaxForecastDays()).toBe(14);
+  });
+
+  it('lowers the maximum when the plan returns fewer days than requested', async () => {
+    const provider = createProvider(3);
+    const service = new WeatherService(provider);
+
+    await service.getForecast('London', 7);
+    expect(service.getMaxForecastDays()).toBe(3);
+
+    await service.getForecast('London', 10);
+    expect(provider.requestedDays).toEqual([7, 3]);
+  });
+
+  it('keeps the maximum when the full forecast arrives', async () => {
+    const service = new WeatherService(createProvider(14));
+
+    await service.getForecast('London', 7);
+    expect(service.getMaxForecastDays()).toBe(14);
+  });
+});
@@ -1,176 +1,203 @@
 import axios, { AxiosError } from 'axios';
-import type { WeatherData, DayForecast, LocationSuggestion, WeatherApiResponse } from '../types/weather';
-
-const API_BASE_URL = 'https://api.weatherapi.com/v1';
-const API_KEY = import.meta.env.VITE_WEATHER_API_KEY || '';
+import { API_CONFIG } from '../config/api';
+import type { WeatherData, WeatherHistory, LocationSuggestion } from '../types/weather';
+import { DEFAULT_RETRY_OPTIONS, withRetry, type RetryOptions } from '../utils/retry';
+import { createWeatherProvider, type WeatherProvider } from './providers';
+import {
+  WeatherServiceError,
+  AbortedError,
+  AuthError,
+  NotFoundError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  parseRetryAfter,
+} from './errors';
+
+// WeatherAPI.com error codes that override the HTTP status
+const ERROR_CODE_NO_LOCATION = 1006;
+const ERROR_CODE_QUOTA_EXCEEDED = 2007;
 
 /**
- * Service layer for fetching weather data from WeatherAPI.com.
- * Handles API communication, response transformation, and error handling.
+ * Service layer for fetching weather data through a pluggable WeatherProvider.
+ * Delegates API communication to the configured provider, retries transient
+ * failures and normalizes errors into typed WeatherServiceErrors.
  */
 export class WeatherService {
-  private apiKey: string;
-  private baseUrl: string;
+  private provider: WeatherProvider;
+  private retryOptions: RetryOptions;
+  private language = 'en';
+  /** Days the API key's plan actually serves, learned from a short forecast; null until one is seen. */
+  private forecastDayLimit: number | null = null;
+
+  constructor(provider: WeatherProvider = createWeatherProvider(), retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS) {
+    this.provider = provider;
+    this.retryOptions = retryOptions;
+  }
+
+  /**
+   * The longest forecast, in days, that can be loaded: the provider's maximum,
+   * lowered once a response shows the plan serves fewer days.
+   */
+  getMaxForecastDays(): number {
+    return Math.min(this.provider.maxForecastDays, this.forecastDayLimit ?? Infinity);
+  }
 
-  constructor(apiKey: string = API_KEY, baseUrl: string = API_BASE_URL) {
-    this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+  /**
+   * Sets the language of condition texts and place names in later responses,
+   * as far as the provider supports it.
+   * @param language - An ISO 639-1 code such as "de"
+   */
+  setLanguage(language: string): void {
+    this.language = language;
+    this.provider.setLanguage(language);
+  }
+
+  /**
+   * The language requested from the provider.
+   */
+  getLanguage(): string {
+    return this.language;
   }
 
   /**
    * Fetches current weather data for a given city.
    * @param city - The city name or location query (e.g. "London", "48.8566,2.3522")
+   * @param signal - Cancels the request and any pending retries
    * @returns A promise resolving to the transformed WeatherData object with current conditions
-   * @throws Error if the API request fails or returns an invalid response
+   * @throws WeatherServiceError subclass describing why the request failed
    */
-  async getCurrentWeather(city: string): Promise<WeatherData> {
-    try {
-      const response = await axios.get<WeatherApiResponse>(
-        `${this.baseUrl}/forecast.json`,
-        {
-          params: {
-            key: this.apiKey,
-            q: city,
-            days: 1,
-            aqi: 'no',
-          },
-        }
-      );
-
-      return this.transformWeatherResponse(response.data);
-    } catch (error) {
-      throw this.handleApiError(error, `Failed to fetch current weather for "${city}"`);
-    }
+  async getCurrentWeather(city: string, signal?: AbortSignal): Promise<WeatherData> {
+    return this.request(
+      () => this.provider.getCurrentWeather(city, signal),
+      `Failed to fetch current weather for "${city}"`,
+      city,
+      signal
+    );
   }
 
   /**
    * Fetches weather forecast data for a given city.
    * @param city - The city name or location query
-   * @param days - Number of forecast days to retrieve (1-10, default 5)
+   * @param days - Number of forecast days to retrieve, capped at getMaxForecastDays()
+   * @param signal - Cancels the request and any pending retries
    * @returns A promise resolving to the transformed WeatherData object with forecast data
-   * @throws Error if the API request fails or returns an invalid response
+   * @throws WeatherServiceError subclass describing why the request failed
    */
-  async getForecast(city: string, days: number = 5): Promise<WeatherData> {
-    try {
-      const response = await axios.get<WeatherApiResponse>(
-        `${this.baseUrl}/forecast.json`,
-        {
-          params: {
-            key: this.apiKey,
-            q: city,
-            days,
-            aqi: 'no',
-          },
-        }
-      );
-
-      return this.transformWeatherResponse(response.data);
-    } catch (error) {
-      throw this.handleApiError(error, `Failed to fetch forecast for "${city}"`);
+  async getForecast(
+    city: string,
+    days: number = API_CONFIG.DEFAULT_FORECAST_DAYS,
+    signal?: AbortSignal
+  ): Promise<WeatherData> {
+    const supportedDays = Math.min(days, this.getMaxForecastDays());
+    const data = await this.request(
+      () => this.provider.getForecast(city, supportedDays, signal),
+      `Failed to fetch forecast for "${city}"`,
+      city,
+      signal
+    );
+
+    // Plans may stop short of the provider's maximum, e.g. 3 days on WeatherAPI.com's free tier
+    if (data.forecast.length > 0 && data.forecast.length < supportedDays) {
+      this.forecastDayLimit = data.forecast.length;
     }
+    return data;
+  }
+
+  /**
+   * Fetches observed weather for a past day.
+   * @param location - The city name or location query
+   * @param date - The day as "YYYY-MM-DD" in the location's local time
+   * @param signal - Cancels the request and any pending retries
+   * @returns A promise resolving to the day's observed daily and hourly conditions
+   * @throws WeatherServiceError subclass describing why the request failed
+   */
+  async getHistory(location: string, date: string, signal?: AbortSignal): Promise<WeatherHistory> {
+    return this.request(
+      () => this.provider.getHistory(location, date, signal),
+      `Failed to fetch history for "${location}" on ${date}`,
+      location,
+      signal
+    );
   }
 
   /**
    * Searches for location suggestions matching the given query.
    * @param query - The search query string (city name, zip code, coordinates, etc.)
+   * @param signal - Cancels the request and any pending retries
    * @returns A promise resolving to an array of location suggestions
-   * @throws Error if the API request fails or returns an invalid response
+   * @throws WeatherServiceError subclass describing why the request failed
    */
-  async searchLocations(query: string): Promise<LocationSuggestion[]> {
-    try {
-      const response = await axios.get<Array<{
-        name: string;
-        region: string;
-        country: string;
-        lat: number;
-        lon: number;
-      }>>(
-        `${this.baseUrl}/search.json`,
-        {
-          params: {
-            key: this.apiKey,
-            q: query,
-          },
-        }
-      );
-
-      return response.data.map((item) => ({
-        name: item.name,
-        country: item.country,
-        region: item.region,
-        lat: item.lat,
-        lon: item.lon,
-      }));
-    } catch (error) {
-      throw this.handleApiError(error, `Failed to search locations for "${query}"`);
-    }
+  async searchLocations(query: string, signal?: AbortSignal): Promise<LocationSuggestion[]> {
+    return this.request(
+      () => this.provider.searchLocations(query, signal),
+      `Failed to search locations for "${query}"`,
+      query,
+      signal
+    );
   }
 
   /**
-   * Transforms the raw WeatherAPI response into the app's WeatherData interface.
+   * Runs a provider call with retries, converting failures to typed errors.
    */
-  private transformWeatherResponse(data: WeatherApiResponse): WeatherData {
-    const forecast: DayForecast[] = (data.forecast?.forecastday ?? []).map((day) => ({
-      date: day.date,
-      maxTemp: day.day.maxtemp_c,
-      minTemp: day.day.mintemp_c,
-      condition: day.day.condition.text,
-      description: day.day.condition.text,
-      icon: day.day.condition.icon,
-      humidity: day.day.avghumidity,
-      windSpeed: day.day.maxwind_kph,
-    }));
-
-    return {
-      location: {
-        name: data.location.name,
-        country: data.location.country,
-        lat: data.location.lat,
-        lon: data.location.lon,
-      },
-      current: {
-        temperature: data.current.temp_c,
-        condition: data.current.condition.text,
-        description: data.current.condition.text,
-        humidity: data.current.humidity,
-        windSpeed: data.current.wind_kph,
-        pressure: data.current.pressure_mb,
-        visibility: data.current.vis_km,
-        uvIndex: data.current.uv,
-        icon: data.current.condition.icon,
-      },
-      forecast,
-    };
+  private request<T>(operation: () => Promise<T>, context: string, query: string, signal?: AbortSignal): Promise<T> {
+    return withRetry(async () => {
+      try {
+        return await operation();
+      } catch (error) {
+        throw this.handleApiError(error, context, query);
+      }
+    }, this.retryOptions, signal);
   }
 
   /**
-   * Handles API errors and returns a descriptive error message.
+   * Maps provider and transport failures to typed errors with retry hints.
    */
-  private handleApiError(error: unknown, context: string): Error {
+  private handleApiError(error: unknown, context: string, query: string): WeatherServiceError {
+    if (error instanceof WeatherServiceError) {
+      return error;
+    }
+
+    if (axios.isCancel(error)) {
+      return new AbortedError(`${context}: Request was aborted`, { cause: error });
+    }
+
     if (error instanceof AxiosError) {
       if (error.response) {
         const status = error.response.status;
-        const message = error.response.data?.error?.message || error.message;
+        const apiError = error.response.data?.error;
+        const code: number | undefined = apiError?.code;
+        const message = apiError?.message || error.response.data?.reason || error.message;
+        const options = { status, cause: error };
 
-        if (status === 400) {
-          return new Error(`${context}: Invalid request — ${message}`);
+        if (code === ERROR_CODE_NO_LOCATION || status === 404) {
+          return new NotFoundError(`${context}: Location not found`, query, options);
+        }
+        if (code === ERROR_CODE_QUOTA_EXCEEDED) {
+          return new RateLimitError(`${context}: API quota exceeded — ${message}`, options);
+        }
+        if (status === 429) {
+          const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+          return new RateLimitError(`${context}: Too many requests`, { ...options, retryAfterMs, retryable: true });
         }
         if (status === 401 || status === 403) {
-          return new Error(`${context}: Authentication failed — check your API key`);
+          return new AuthError(`${context}: Authentication failed — check your API key`, options);
         }
-        if (status === 404) {
-          return new Error(`${context}: Location not found`);
+        if (status >= 500) {
+          const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+          return new ServerError(`${context}: API error (${status}) — ${message}`, { ...options, retryAfterMs });
         }
-        return new Error(`${context}: API error (${status}) — ${message}`);
+        return new WeatherServiceError(`${context}: Invalid request — ${message}`, options);
       }
 
-      if (error.code === 'ECONNABORTED') {
-        return new Error(`${context}: Request timed out`);
+      if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+        return new TimeoutError(`${context}: Request timed out`, { cause: error });
       }
 
-      return new Error(`${context}: Network error — ${error.message}`);
+      return new NetworkError(`${context}: Network error — ${error.message}`, { cause: error });
     }
 
-    return new Error(`${context}: Unexpected error — ${String(error)}`);
+    return new WeatherServiceError(`${context}: Unexpected error — ${String(error)}`, { cause: error });
   }
 }
@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { UnitPreferences } from '../types/units';
+import { DEFAULT_UNIT_PREFERENCES } from '../utils/units';
+import { loadPreferences } from '../utils/preferences';
+import { AppState } from './AppState';
+
+const FAHRENHEIT: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES, temperature: 'F' };
+const MPH: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES, windSpeed: 'mph' };
+
+describe('AppState time travel', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('marks restored state until the next action', () => {
+    const state = new AppState();
+    state.setForecastDays(3);
+    expect(state.isTimeTravelling()).toBe(false);
+
+    expect(state.undo()).toBe(true);
+    expect(state.isTimeTravelling()).toBe(true);
+
+    state.setForecastDays(10);
+    expect(state.isTimeTravelling()).toBe(false);
+  });
+
+  it('restores session units without saving them as the preference', () => {
+    const state = new AppState();
+    state.setUnits(MPH);
+    state.setSessionUnits(FAHRENHEIT);
+    state.setUnits(DEFAULT_UNIT_PREFERENCES);
+
+    state.undo();
+    expect(state.units).toEqual(FAHRENHEIT);
+    state.saveToStorage();
+
+    expect(loadPreferences().units).toEqual(MPH);
+  });
+
+  it('drops the session override when jumping back before the link was opened', () => {
+    const state = new AppState();
+    state.setUnits(MPH);
+    state.setSessionUnits(FAHRENHEIT);
+
+    state.jumpTo(0);
+    expect(state.units).toEqual(DEFAULT_UNIT_PREFERENCES);
+    state.saveToStorage();
+
+    expect(loadPreferences().units).toEqual(DEFAULT_UNIT_PREFERENCES);
+  });
+});
@@ -1,24 +1,62 @@
-import type { WeatherData, LocationSuggestion } from '../types/weather';
-import { getStorageItem, setStorageItem } from '../utils/storage';
+import { API_CONFIG } from '../config/api';
+import type { WeatherData, LocationSuggestion, WeatherAlert } from '../types/weather';
+import type { UnitPreferences } from '../types/units';
+import type { Locale } from '../types/i18n';
+import type { ThemePreference } from '../types/theme';
+import type { NotificationRule } from '../types/notifications';
+import type { AppStateData, PersistedPreferences, StateActionType, StateHistoryEntry } from '../types/state';
+import { detectLocale } from '../i18n';
+import { DEFAULT_UNIT_PREFERENCES, areUnitPreferencesEqual } from '../utils/units';
+import { isSameLocation } from '../utils/location';
+import { DEFAULT_THEME } from '../utils/theme';
+import { isForecastDayOption, loadPreferences, pruneExpiredAlerts, savePreferences } from '../utils/preferences';
 
-const STORAGE_KEY_LOCATION = 'lastLocation';
-const STORAGE_KEY_UNIT = 'temperatureUnit';
+const MAX_RECENT_SEARCHES = 8;
+// Oldest action log entries are dropped beyond this
+const MAX_HISTORY_ENTRIES = 100;
 
 type Subscriber = (state: AppState) => void;
+type Equality<T> = (a: T, b: T) => boolean;
 
 /**
  * Centralized state management for the weather application.
- * Implements the observer pattern for reactive state updates and
- * persists user preferences to localStorage.
+ * Every setter is recorded in an action log that supports undo and time
+ * travel for debugging. Subscribers are notified once per microtask, however
+ * many setters ran, and select() narrows a subscription to one slice.
+ * User preferences can be persisted to localStorage.
  */
-export class AppState {
+export class AppState implements AppStateData {
   currentLocation: LocationSuggestion | null = null;
   weatherData: WeatherData | null = null;
   isLoading = false;
   error: string | null = null;
-  temperatureUnit: 'C' | 'F' = 'C';
+  units: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES };
+  /** Dismissed alert IDs mapped to the alert's expiry, so entries can be pruned. */
+  dismissedAlerts: Record<string, string> = {};
+  favorites: LocationSuggestion[] = [];
+  /** Locations picked from search, most recent first. */
+  recentSearches: LocationSuggestion[] = [];
+  /** Requested forecast length; one of API_CONFIG.FORECAST_DAY_OPTIONS. */
+  forecastDays: number = API_CONFIG.DEFAULT_FORECAST_DAYS;
+  /** UI and provider language; defaults to the browser's preferred language. */
+  locale: Locale = detectLocale();
+  theme: ThemePreference = DEFAULT_THEME;
+  /** Whether the background follows the current condition and time of day. */
+  ambientBackground = false;
+  notificationRules: NotificationRule[] = [];
 
+  /** Saved units while a shared link's units are shown for this session only. */
+  private persistedUnits: UnitPreferences | null = null;
   private subscribers: Set<Subscriber> = new Set();
+  private notifyScheduled = false;
+  private history: StateHistoryEntry[] = [];
+  private historyIndex = -1;
+  /** Whether the state was last changed by undo, redo or jumpTo rather than an action. */
+  private timeTravelling = false;
+
+  constructor() {
+    this.commit('init');
+  }
 
   /**
    * Updates the current location and notifies subscribers.
@@ -27,7 +65,7 @@ export class AppState {
   setLocation(location: LocationSuggestion): void {
     this.currentLocation = location;
     this.error = null;
-    this.notify();
+    this.commit('setLocation', location);
   }
 
   /**
@@ -37,7 +75,7 @@ export class AppState {
   setWeatherData(data: WeatherData): void {
     this.weatherData = data;
     this.error = null;
-    this.notify();
+    this.commit('setWeatherData', data);
   }
 
   /**
@@ -49,7 +87,7 @@ export class AppState {
     if (loading) {
       this.error = null;
     }
-    this.notify();
+    this.commit('setLoading', loading);
   }
 
   /**
@@ -59,16 +97,194 @@ export class AppState {
   setError(error: string | null): void {
     this.error = error;
     this.isLoading = false;
-    this.notify();
+    this.commit('setError', error);
   }
 
   /**
-   * Updates the temperature unit preference and notifies subscribers.
-   * @param unit - 'C' for Celsius or 'F' for Fahrenheit
+   * Updates the unit preferences and notifies subscribers.
+   * @param units - The new preferences for every measured quantity
    */
-  setTemperatureUnit(unit: 'C' | 'F'): void {
-    this.temperatureUnit = unit;
-    this.notify();
+  setUnits(units: UnitPreferences): void {
+    this.units = { ...units };
+    this.persistedUnits = null;
+    this.commit('setUnits', units);
+  }
+
+  /**
+   * Shows the given units for this session without replacing the saved
+   * preference, e.g. for units that came with a shared link. The next
+   * setUnits() call saves again.
+   * @param units - The preferences to display
+   */
+  setSessionUnits(units: UnitPreferences): void {
+    this.persistedUnits ??= this.units;
+    this.units = { ...units };
+    this.commit('setSessionUnits', units);
+  }
+
+  /**
+   * Updates the requested forecast length and notifies subscribers.
+   * Values that are not among the offered options are ignored.
+   * @param days - Number of forecast days
+   */
+  setForecastDays(days: number): void {
+    if (!isForecastDayOption(days)) return;
+    this.forecastDays = days;
+    this.commit('setForecastDays', days);
+  }
+
+  /**
+   * Updates the display language and notifies subscribers.
+   * @param locale - One of the supported locales
+   */
+  setLocale(locale: Locale): void {
+    this.locale = locale;
+    this.commit('setLocale', locale);
+  }
+
+  /**
+   * Updates the theme preference and notifies subscribers.
+   * @param theme - A fixed theme, or "auto" to follow the system
+   */
+  setTheme(theme: ThemePreference): void {
+    this.theme = theme;
+    this.commit('setTheme', theme);
+  }
+
+  /**
+   * Turns the condition-based background on or off and notifies subscribers.
+   * @param enabled - Whether the background follows the weather
+   */
+  setAmbientBackground(enabled: boolean): void {
+    this.ambientBackground = enabled;
+    this.commit('setAmbientBackground', enabled);
+  }
+
+  /**
+   * Adds a location to the favorites list if it is not already there.
+   * @param location - The location to add
+   */
+  addFavorite(location: LocationSuggestion): void {
+    if (this.isFavorite(location)) return;
+    this.favorites = [...this.favorites, location];
+    this.commit('addFavorite', location);
+  }
+
+  /**
+   * Removes a location from the favorites list.
+   * @param location - The location to remove, matched by coordinates
+   */
+  removeFavorite(location: LocationSuggestion): void {
+    this.favorites = this.favorites.filter((fav) => !isSameLocation(fav, location));
+    this.commit('removeFavorite', location);
+  }
+
+  /**
+   * Moves a favorite to a new position in the list.
+   * @param from - Current index of the favorite
+   * @param to - Target index
+   */
+  moveFavorite(from: number, to: number): void {
+    if (from === to || from < 0 || from >= this.favorites.length) return;
+
+    const favorites = [...this.favorites];
+    const [moved] = favorites.splice(from, 1);
+    favorites.splice(Math.max(0, Math.min(to, favorites.length)), 0, moved);
+    this.favorites = favorites;
+    this.commit('moveFavorite', { from, to });
+  }
+
+  /**
+   * Whether the given location is in the favorites list.
+   */
+  isFavorite(location: LocationSuggestion): boolean {
+    return this.favorites.some((fav) => isSameLocation(fav, location));
+  }
+
+  /**
+   * Moves a location to the front of the recent searches, replacing any
+   * entry with the same coordinates and dropping the oldest beyond the limit.
+   * @param location - The location the user selected
+   */
+  addRecentSearch(location: LocationSuggestion): void {
+    const others = this.recentSearches.filter((recent) => !isSameLocation(recent, location));
+    this.recentSearches = [location, ...others].slice(0, MAX_RECENT_SEARCHES);
+    this.commit('addRecentSearch', location);
+  }
+
+  /**
+   * Removes a location from the recent searches.
+   * @param location - The location to remove, matched by coordinates
+   */
+  removeRecentSearch(location: LocationSuggestion): void {
+    this.recentSearches = this.recentSearches.filter((recent) => !isSameLocation(recent, location));
+    this.commit('removeRecentSearch', location);
+  }
+
+  /**
+   * Forgets every recent search.
+   */
+  clearRecentSearches(): void {
+    this.recentSearches = [];
+    this.commit('clearRecentSearches');
+  }
+
+  /**
+   * Marks an alert as acknowledged so it stays hidden on later refreshes.
+   * @param alert - The alert the user dismissed
+   */
+  dismissAlert(alert: WeatherAlert): void {
+    this.dismissedAlerts = {
+      ...pruneExpiredAlerts(this.dismissedAlerts),
+      [alert.id]: alert.expires,
+    };
+    this.commit('dismissAlert', alert.id);
+  }
+
+  /**
+   * Adds a user-defined notification rule.
+   * @param rule - The rule, with a unique id
+   */
+  addNotificationRule(rule: NotificationRule): void {
+    this.notificationRules = [...this.notificationRules, rule];
+    this.commit('addNotificationRule', rule);
+  }
+
+  /**
+   * Deletes a notification rule.
+   * @param id - The rule's id
+   */
+  removeNotificationRule(id: string): void {
+    this.notificationRules = this.notificationRules.filter((rule) => rule.id !== id);
+    this.commit('removeNotificationRule', id);
+  }
+
+  /**
+   * Pauses or resumes a notification rule.
+   * @param id - The rule's id
+   * @param enabled - Whether the rule is evaluated
+   */
+  setNotificationRuleEnabled(id: string, enabled: boolean): void {
+    this.updateNotificationRule(id, { enabled });
+    this.commit('setNotificationRuleEnabled', { id, enabled });
+  }
+
+  /**
+   * Records when a rule last fired, starting its cooldown.
+   * @param id - The rule's id
+   * @param at - Epoch milliseconds of the notification
+   */
+  markNotificationRuleTriggered(id: string, at: number): void {
+    this.updateNotificationRule(id, { lastTriggeredAt: at });
+    this.commit('markNotificationRuleTriggered', { id, at });
+  }
+
+  /**
+   * Returns the alerts in the current weather data the user has not dismissed.
+   */
+  getActiveAlerts(): WeatherAlert[] {
+    if (!this.weatherData) return [];
+    return this.weatherData.alerts.filter((alert) => !(alert.id in this.dismissedAlerts));
   }
 
   /**
@@ -84,39 +300,212 @@ export class AppState {
   }
 
   /**
-   * Persists current user preferences (last location, temperature unit) to localStorage.
+   * Subscribes to one slice of the state. The listener runs only when the
+   * selected value changes, not on every notification.
+   * @param selector - Picks the slice from the state
+   * @param listener - Called with the new and previous slice
+   * @param isEqual - Decides whether two slices are the same; defaults to identity
+   * @returns An unsubscribe function
+   */
+  select<T>(
+    selector: (state: AppState) => T,
+    listener: (value: T, previous: T) => void,
+    isEqual: Equality<T> = Object.is
+  ): () => void {
+    let current = selector(this);
+    return this.subscribe((state) => {
+      const next = selector(state);
+      if (isEqual(next, current)) return;
+      const previous = current;
+      current = next;
+      listener(next, previous);
+    });
+  }
+
+  /**
+   * The action log, oldest first. Each entry holds the state right after its action.
+   */
+  getHistory(): readonly StateHistoryEntry[] {
+    return this.history;
+  }
+
+  /**
+   * Index of the history entry the state currently reflects.
+   */
+  getHistoryIndex(): number {
+    return this.historyIndex;
+  }
+
+  canUndo(): boolean {
+    return this.historyIndex > 0;
+  }
+
+  canRedo(): boolean {
+    return this.historyIndex < this.history.length - 1;
+  }
+
+  /**
+   * Restores the state from before the last action.
+   * @returns Whether there was an action to undo
+   */
+  undo(): boolean {
+    return this.jumpTo(this.historyIndex - 1);
+  }
+
+  /**
+   * Re-applies the action undone last.
+   * @returns Whether there was an action to redo
+   */
+  redo(): boolean {
+    return this.jumpTo(this.historyIndex + 1);
+  }
+
+  /**
+   * Restores the state recorded at the given history entry and notifies
+   * subscribers. The log is kept, so later entries can be revisited until
+   * the next action replaces them.
+   * @param index - Index into getHistory()
+   * @returns Whether the index was valid
+   */
+  jumpTo(index: number): boolean {
+    const entry = this.history[index];
+    if (!entry || index === this.historyIndex) return false;
+
+    Object.assign(this, entry.state);
+    this.persistedUnits = entry.persistedUnits;
+    this.historyIndex = index;
+    this.timeTravelling = true;
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Whether the state shows an entry restored by undo, redo or jumpTo. Such
+   * state is for debugging and should not be saved; the next action clears this.
+   */
+  isTimeTravelling(): boolean {
+    return this.timeTravelling;
+  }
+
+  /**
+   * Persists current user preferences (last location, units, forecast length, language,
+   * theme, ambient background, dismissed alerts, favorites, recent searches,
+   * notification rules) to localStorage.
+   * @throws {StorageQuotaError} If the storage is full
    */
   saveToStorage(): void {
-    if (this.currentLocation) {
-      setStorageItem(STORAGE_KEY_LOCATION, this.currentLocation);
-    }
-    setStorageItem(STORAGE_KEY_UNIT, this.temperatureUnit);
+    savePreferences(this.getPreferences());
   }
 
   /**
    * Loads previously saved user preferences from localStorage.
    */
   loadFromStorage(): void {
-    const savedLocation = getStorageItem<LocationSuggestion>(STORAGE_KEY_LOCATION);
-    if (savedLocation && savedLocation.name && savedLocation.country) {
-      this.currentLocation = savedLocation;
-    }
+    this.applyPreferences(loadPreferences());
+    this.commit('loadFromStorage');
+  }
+
+  /**
+   * Applies preferences saved by another tab. The current location is left
+   * alone so each tab can keep showing its own place.
+   * @param preferences - The preferences read from storage
+   * @returns Whether anything changed
+   */
+  syncFromStorage(preferences: Partial<PersistedPreferences>): boolean {
+    const { currentLocation: _currentLocation, ...synced } = preferences;
+    const before = JSON.stringify(this.getPreferences());
+    this.applyPreferences(synced);
+    // Comparing avoids echoing back the save this tab makes after syncing
+    if (JSON.stringify(this.getPreferences()) === before) return false;
+
+    this.commit('syncFromStorage');
+    return true;
+  }
 
-    const savedUnit = getStorageItem<'C' | 'F'>(STORAGE_KEY_UNIT);
-    if (savedUnit === 'C' || savedUnit === 'F') {
-      this.temperatureUnit = savedUnit;
+  private getPreferences(): PersistedPreferences {
+    return {
+      currentLocation: this.currentLocation,
+      units: this.persistedUnits ?? this.units,
+      forecastDays: this.forecastDays,
+      locale: this.locale,
+      theme: this.theme,
+      ambientBackground: this.ambientBackground,
+      dismissedAlerts: this.dismissedAlerts,
+      favorites: this.favorites,
+      recentSearches: this.recentSearches,
+      notificationRules: this.notificationRules,
+    };
+  }
+
+  private updateNotificationRule(id: string, changes: Partial<NotificationRule>): void {
+    this.notificationRules = this.notificationRules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule));
+  }
+
+  private applyPreferences(preferences: Partial<PersistedPreferences>): void {
+    const { units, ...rest } = preferences;
+    if (units && this.persistedUnits) {
+      // Keep showing the session's units unless the saved choice itself changed
+      if (areUnitPreferencesEqual(units, this.persistedUnits)) {
+        preferences = rest;
+      } else {
+        this.persistedUnits = null;
+      }
     }
+    Object.assign(this, preferences);
+    this.recentSearches = this.recentSearches.slice(0, MAX_RECENT_SEARCHES);
+  }
 
+  private snapshot(): AppStateData {
+    return {
+      currentLocation: this.currentLocation,
+      weatherData: this.weatherData,
+      isLoading: this.isLoading,
+      error: this.error,
+      units: this.units,
+      dismissedAlerts: this.dismissedAlerts,
+      favorites: this.favorites,
+      recentSearches: this.recentSearches,
+      forecastDays: this.forecastDays,
+      locale: this.locale,
+      theme: this.theme,
+      ambientBackground: this.ambientBackground,
+      notificationRules: this.notificationRules,
+    };
+  }
+
+  /**
+   * Records the action that just ran, discarding any undone entries after
+   * the current one, and schedules a notification.
+   */
+  private commit(type: StateActionType, payload?: unknown): void {
+    const entry: StateHistoryEntry = {
+      action: { type, payload, timestamp: Date.now() },
+      state: this.snapshot(),
+      persistedUnits: this.persistedUnits,
+    };
+    this.history = [...this.history.slice(0, this.historyIndex + 1), entry].slice(-MAX_HISTORY_ENTRIES);
+    this.historyIndex = this.history.length - 1;
+    this.timeTravelling = false;
     this.notify();
   }
 
+  /**
+   * Notifies subscribers once at the end of the current task, so several
+   * setters in a row cause a single round of updates.
+   */
   private notify(): void {
-    for (const callback of this.subscribers) {
-      try {
-        callback(this);
-      } catch {
-        // Prevent one broken subscriber from blocking others
+    if (this.notifyScheduled) return;
+    this.notifyScheduled = true;
+
+    queueMicrotask(() => {
+      this.notifyScheduled = false;
+      for (const callback of this.subscribers) {
+        try {
+          callback(this);
+        } catch {
+          // Prevent one broken subscriber from blocking others
+        }
       }
-    }
+    });
   }
 }
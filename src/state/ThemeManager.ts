@@ -0,0 +1,76 @@
+import type { ResolvedTheme, ThemePreference } from '../types/theme';
+import type { WeatherData } from '../types/weather';
+import { DEFAULT_THEME } from '../utils/theme';
+
+type AmbientCondition = Pick<WeatherData['current'], 'category' | 'isDay'>;
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Applies the theme to the document root as data attributes the stylesheets
+ * key their custom properties on. "auto" is resolved against the system color
+ * scheme and re-resolved whenever that changes. The optional ambient scene
+ * tints the background by the current condition and time of day.
+ */
+export class ThemeManager {
+  private root: HTMLElement;
+  private preference: ThemePreference = DEFAULT_THEME;
+  private ambient: AmbientCondition | null = null;
+  private mediaQuery: MediaQueryList | null;
+  private boundHandleSchemeChange: () => void;
+
+  constructor(root: HTMLElement = document.documentElement) {
+    this.root = root;
+    this.mediaQuery = typeof window.matchMedia === 'function' ? window.matchMedia(DARK_SCHEME_QUERY) : null;
+    this.boundHandleSchemeChange = this.apply.bind(this);
+    this.mediaQuery?.addEventListener('change', this.boundHandleSchemeChange);
+  }
+
+  /**
+   * Switches the theme immediately.
+   * @param preference - The theme to apply, or "auto" to follow the system
+   */
+  setTheme(preference: ThemePreference): void {
+    this.preference = preference;
+    this.apply();
+  }
+
+  /**
+   * Sets the condition the background reflects. Pass null to turn the
+   * ambient background off.
+   * @param condition - Current condition category and whether it is daytime
+   */
+  setAmbient(condition: AmbientCondition | null): void {
+    this.ambient = condition;
+    this.apply();
+  }
+
+  /**
+   * The theme currently applied, with "auto" resolved.
+   */
+  getResolvedTheme(): ResolvedTheme {
+    if (this.preference !== 'auto') return this.preference;
+    return this.mediaQuery && !this.mediaQuery.matches ? 'light' : 'dark';
+  }
+
+  /**
+   * Stops following the system color scheme.
+   */
+  destroy(): void {
+    this.mediaQuery?.removeEventListener('change', this.boundHandleSchemeChange);
+  }
+
+  private apply(): void {
+    const theme = this.getResolvedTheme();
+    this.root.dataset.theme = theme;
+
+    // Tinted backgrounds would undercut the high-contrast palette
+    if (this.ambient?.category && theme !== 'high-contrast') {
+      this.root.dataset.ambient = this.ambient.category;
+      this.root.dataset.daylight = this.ambient.isDay ? 'day' : 'night';
+    } else {
+      delete this.root.dataset.ambient;
+      delete this.root.dataset.daylight;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { WeatherApiResponse } from '../types/weatherApi';
+import { transformWeatherApiResponse } from '../services/providers/weatherApiProvider';
+import { CurrentWeather } from '../components/CurrentWeather';
+import { AppState } from './AppState';
+import { UrlRouter } from './UrlRouter';
+import forecastFixture from '../services/providers/__fixtures__/weatherapi-forecast.json';
+
+const forecast: WeatherApiResponse = forecastFixture;
+
+describe('UrlRouter', () => {
+  let router: UrlRouter | null = null;
+
+  afterEach(() => {
+    router?.destroy();
+    router = null;
+    history.replaceState(null, '', '/');
+    document.body.innerHTML = '';
+  });
+
+  it('reads a shared location', () => {
+    history.replaceState(null, '', '/?q=%20Paris%20&country=France&lat=48.87&lon=2.33&unit=f&day=2');
+    router = new UrlRouter();
+
+    expect(router.getRoute()).toEqual({
+      location: { name: 'Paris', country: 'France', region: '', lat: 48.87, lon: 2.33 },
+      query: null,
+      unit: 'F',
+      day: 2,
+    });
+  });
+
+  it('limits the length of free text from the link', () => {
+    history.replaceState(null, '', `/?q=${'a'.repeat(500)}&lat=1&lon=1`);
+    router = new UrlRouter();
+
+    expect(router.getRoute().location?.name).toHaveLength(100);
+  });
+
+  it('keeps a location name from the link inside the attributes it is rendered into', () => {
+    history.replaceState(null, '', '/?q=x%22%20autofocus%20onfocus%3D%22alert(1)&lat=1&lon=1');
+    router = new UrlRouter();
+    const location = router.getRoute().location!;
+
+    const container = document.createElement('div');
+    document.body.appendChild(container);
+    const current = new CurrentWeather(container, new AppState());
+    const data = transformWeatherApiResponse(forecast);
+    current.render({ ...data, location: { ...data.location, name: location.name } });
+
+    const favorite = container.querySelector('.current-weather__favorite')!;
+    expect(favorite.hasAttribute('onfocus')).toBe(false);
+    expect(favorite.getAttribute('aria-label')).toContain(location.name);
+    current.destroy();
+  });
+});
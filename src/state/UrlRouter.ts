@@ -0,0 +1,152 @@
+import type { LocationSuggestion } from '../types/weather';
+import type { TemperatureUnit } from '../types/units';
+
+/**
+ * The parts of the app state reflected in the URL query string.
+ */
+export interface RouteState {
+  /** Fully identified location (name plus coordinates). */
+  location: LocationSuggestion | null;
+  /** Free-text location query, used when only `q` is present in a shared link. */
+  query: string | null;
+  unit: TemperatureUnit | null;
+  /** Index of the forecast day opened in the day detail panel. */
+  day: number | null;
+}
+
+type RouteListener = (route: RouteState) => void;
+
+// Longer text in a link is cut off; no place name comes close
+const MAX_PARAM_LENGTH = 100;
+
+/**
+ * Minimal query-string router. Serializes RouteState into the URL via the
+ * History API and notifies subscribers on back/forward navigation.
+ */
+export class UrlRouter {
+  private listeners: Set<RouteListener> = new Set();
+  private boundHandlePopState: () => void;
+
+  constructor() {
+    this.boundHandlePopState = this.handlePopState.bind(this);
+    window.addEventListener('popstate', this.boundHandlePopState);
+  }
+
+  /**
+   * Parses the route from the current URL.
+   */
+  getRoute(): RouteState {
+    return parseRoute(new URLSearchParams(window.location.search));
+  }
+
+  /**
+   * Adds a history entry for the route, unless the URL would not change.
+   */
+  push(route: RouteState): void {
+    this.update(route, 'push');
+  }
+
+  /**
+   * Rewrites the current history entry with the route.
+   */
+  replace(route: RouteState): void {
+    this.update(route, 'replace');
+  }
+
+  /**
+   * Subscribes to back/forward navigation.
+   * @param callback - Called with the route of the entry navigated to
+   * @returns An unsubscribe function
+   */
+  subscribe(callback: RouteListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Removes the popstate listener and all subscribers.
+   */
+  destroy(): void {
+    window.removeEventListener('popstate', this.boundHandlePopState);
+    this.listeners.clear();
+  }
+
+  private update(route: RouteState, mode: 'push' | 'replace'): void {
+    const search = serializeRoute(route);
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (mode === 'push') {
+      history.pushState(null, '', url);
+    } else {
+      history.replaceState(null, '', url);
+    }
+  }
+
+  private handlePopState(): void {
+    const route = this.getRoute();
+    for (const callback of this.listeners) {
+      try {
+        callback(route);
+      } catch {
+        // Prevent one broken subscriber from blocking others
+      }
+    }
+  }
+}
+
+function parseRoute(params: URLSearchParams): RouteState {
+  const query = readText(params, 'q') || null;
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lon = parseFloat(params.get('lon') ?? '');
+  const hasCoords = Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+  const location: LocationSuggestion | null =
+    query && hasCoords
+      ? {
+          name: query,
+          country: readText(params, 'country'),
+          region: readText(params, 'region'),
+          lat,
+          lon,
+        }
+      : null;
+
+  const unitParam = params.get('unit')?.toUpperCase();
+  const unit = unitParam === 'C' || unitParam === 'F' ? unitParam : null;
+
+  const dayParam = parseInt(params.get('day') ?? '', 10);
+  const day = Number.isInteger(dayParam) && dayParam >= 0 ? dayParam : null;
+
+  return { location, query: location ? null : query, unit, day };
+}
+
+/**
+ * Reads a free-text parameter, trimmed and limited in length. Shared links
+ * are untrusted, so the text is only ever rendered escaped.
+ */
+function readText(params: URLSearchParams, name: string): string {
+  return (params.get(name) ?? '').trim().slice(0, MAX_PARAM_LENGTH);
+}
+
+function serializeRoute(route: RouteState): string {
+  const params = new URLSearchParams();
+
+  if (route.location) {
+    params.set('q', route.location.name);
+    params.set('lat', route.location.lat.toFixed(4));
+    params.set('lon', route.location.lon.toFixed(4));
+    if (route.location.country) params.set('country', route.location.country);
+    if (route.location.region) params.set('region', route.location.region);
+  } else if (route.query) {
+    params.set('q', route.query);
+  }
+
+  if (route.unit) params.set('unit', route.unit);
+  if (route.day !== null) params.set('day', String(route.day));
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
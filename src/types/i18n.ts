@@ -0,0 +1,16 @@
+export type Locale = 'en' | 'de' | 'es' | 'ja';
+
+/**
+ * A message that depends on a count, keyed by CLDR plural category. Only
+ * "other" is required; languages without plural forms (e.g. Japanese) need
+ * nothing else.
+ */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * A catalog entry. Placeholders are written as {name} and filled from the
+ * params passed to t().
+ */
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
@@ -0,0 +1,52 @@
+import type { LocationSuggestion } from './weather';
+
+export type RuleMetric = 'temperature' | 'chanceOfRain' | 'uvIndex';
+
+export type RuleOperator = '<' | '<=' | '>' | '>=';
+
+/**
+ * The stretch of the forecast a rule looks at. "nextHours" covers the
+ * rule's `hours` from now; "today" and "tomorrow" are local to the location.
+ */
+export type RulePeriod = 'now' | 'nextHours' | 'today' | 'tomorrow';
+
+/**
+ * A user-defined threshold, e.g. "tomorrow's temperature below 0°C at Home".
+ */
+export interface NotificationRule {
+  id: string;
+  metric: RuleMetric;
+  operator: RuleOperator;
+  /** Threshold in the units weather data is stored in: °C, percent or UV index. */
+  threshold: number;
+  period: RulePeriod;
+  /** Look-ahead for the "nextHours" period. */
+  hours: number;
+  /** Where the rule applies, or null for whichever location is displayed. */
+  location: LocationSuggestion | null;
+  /** Minimum time between two notifications for this rule. */
+  cooldownHours: number;
+  enabled: boolean;
+  /** Epoch milliseconds of the last notification, or null if it never fired. */
+  lastTriggeredAt: number | null;
+}
+
+/**
+ * A rule whose condition holds, with the value that satisfied it.
+ */
+export interface RuleMatch {
+  rule: NotificationRule;
+  value: number;
+}
+
+/**
+ * An entry in the in-app notification centre.
+ */
+export interface AppNotification {
+  id: string;
+  title: string;
+  body: string;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  read: boolean;
+}
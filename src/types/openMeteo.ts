@@ -0,0 +1,102 @@
+/**
+ * Raw response shapes returned by the Open-Meteo forecast and geocoding APIs.
+ */
+export interface OpenMeteoForecastResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  utc_offset_seconds: number;
+  current: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    weather_code: number;
+    wind_speed_10m: number;
+    pressure_msl: number;
+    visibility: number;
+    uv_index: number;
+    is_day: number;
+  };
+  daily: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    relative_humidity_2m_mean: number[];
+    wind_speed_10m_max: number[];
+    precipitation_sum: number[];
+    precipitation_probability_max: number[];
+    snowfall_sum: number[];
+    uv_index_max: number[];
+    sunrise: string[];
+    sunset: string[];
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    apparent_temperature: number[];
+    precipitation_probability: number[];
+    wind_speed_10m: number[];
+    weather_code: number[];
+    is_day: number[];
+  };
+}
+
+/**
+ * Response of the historical weather (archive) API. Observations carry
+ * precipitation amounts instead of probabilities and no UV index.
+ */
+export interface OpenMeteoHistoryResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  utc_offset_seconds: number;
+  daily: {
+    time: string[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    relative_humidity_2m_mean: number[];
+    wind_speed_10m_max: number[];
+    precipitation_sum: number[];
+    snowfall_sum: number[];
+    sunrise: string[];
+    sunset: string[];
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: number[];
+    apparent_temperature: number[];
+    precipitation: number[];
+    wind_speed_10m: number[];
+    weather_code: number[];
+    is_day: number[];
+  };
+}
+
+export interface OpenMeteoAirQualityResponse {
+  current: {
+    time: string;
+    pm10: number;
+    pm2_5: number;
+    carbon_monoxide: number;
+    nitrogen_dioxide: number;
+    sulphur_dioxide: number;
+    ozone: number;
+    us_aqi: number;
+  };
+}
+
+export interface OpenMeteoGeocodingResult {
+  id: number;
+  name: string;
+  latitude: number;
+  longitude: number;
+  country?: string;
+  admin1?: string;
+  timezone?: string;
+}
+
+export interface OpenMeteoGeocodingResponse {
+  results?: OpenMeteoGeocodingResult[];
+}
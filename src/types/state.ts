@@ -0,0 +1,97 @@
+import type { LocationSuggestion, WeatherData } from './weather';
+import type { UnitPreferences } from './units';
+import type { Locale } from './i18n';
+import type { ThemePreference } from './theme';
+import type { NotificationRule } from './notifications';
+
+/**
+ * The data held by AppState, without its methods. History entries store
+ * one of these per action so the state can be restored later.
+ */
+export interface AppStateData {
+  currentLocation: LocationSuggestion | null;
+  weatherData: WeatherData | null;
+  isLoading: boolean;
+  error: string | null;
+  units: UnitPreferences;
+  dismissedAlerts: Record<string, string>;
+  favorites: LocationSuggestion[];
+  recentSearches: LocationSuggestion[];
+  forecastDays: number;
+  locale: Locale;
+  theme: ThemePreference;
+  ambientBackground: boolean;
+  notificationRules: NotificationRule[];
+}
+
+/**
+ * The user preferences saved to localStorage, in the current schema version.
+ * `currentLocation` is the last location viewed.
+ */
+export type PersistedPreferences = Pick<
+  AppStateData,
+  | 'currentLocation'
+  | 'units'
+  | 'forecastDays'
+  | 'locale'
+  | 'theme'
+  | 'ambientBackground'
+  | 'dismissedAlerts'
+  | 'favorites'
+  | 'recentSearches'
+  | 'notificationRules'
+>;
+
+export type StateActionType =
+  | 'init'
+  | 'loadFromStorage'
+  | 'syncFromStorage'
+  | 'setLocation'
+  | 'setWeatherData'
+  | 'setLoading'
+  | 'setError'
+  | 'setUnits'
+  | 'setSessionUnits'
+  | 'setForecastDays'
+  | 'setLocale'
+  | 'setTheme'
+  | 'setAmbientBackground'
+  | 'addFavorite'
+  | 'removeFavorite'
+  | 'moveFavorite'
+  | 'addRecentSearch'
+  | 'removeRecentSearch'
+  | 'clearRecentSearches'
+  | 'dismissAlert'
+  | 'addNotificationRule'
+  | 'removeNotificationRule'
+  | 'setNotificationRuleEnabled'
+  | 'markNotificationRuleTriggered';
+
+export interface StateAction {
+  type: StateActionType;
+  payload?: unknown;
+  /** Milliseconds since the epoch when the action ran. */
+  timestamp: number;
+}
+
+/** One step in the action log: the action and the state right after it. */
+export interface StateHistoryEntry {
+  action: StateAction;
+  state: Readonly<AppStateData>;
+  /** The saved units while a shared link's units were shown, so undo keeps them apart. */
+  persistedUnits: UnitPreferences | null;
+}
+
+/**
+ * Debugging hooks exposed on `window.__weatherDevtools` in development builds.
+ */
+export interface StateDevtools {
+  /** The action log, oldest first. */
+  history(): readonly StateHistoryEntry[];
+  /** Index of the entry the state currently reflects. */
+  position(): number;
+  undo(): boolean;
+  redo(): boolean;
+  jumpTo(index: number): boolean;
+}
@@ -0,0 +1,5 @@
+/** The user's theme choice; "auto" follows the system color scheme. */
+export type ThemePreference = 'auto' | 'light' | 'dark' | 'high-contrast';
+
+/** The theme actually applied to the document. */
+export type ResolvedTheme = Exclude<ThemePreference, 'auto'>;
@@ -0,0 +1,18 @@
+export type TemperatureUnit = 'C' | 'F';
+export type WindSpeedUnit = 'kmh' | 'mph' | 'ms' | 'kn' | 'bft';
+export type PressureUnit = 'hPa' | 'inHg' | 'mmHg';
+export type DistanceUnit = 'km' | 'mi';
+export type PrecipitationUnit = 'mm' | 'in';
+
+/**
+ * The user's preferred display unit for each measured quantity.
+ * Weather data is always stored in metric (°C, km/h, hPa, km, mm)
+ * and converted only when formatted for display.
+ */
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  windSpeed: WindSpeedUnit;
+  pressure: PressureUnit;
+  distance: DistanceUnit;
+  precipitation: PrecipitationUnit;
+}
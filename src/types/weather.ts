@@ -1,22 +1,78 @@
+/**
+ * Coarse condition group shared by all providers, independent of the
+ * language the condition text is in.
+ */
+export type ConditionCategory = 'clear' | 'partly-cloudy' | 'cloudy' | 'fog' | 'rain' | 'snow' | 'thunder';
+
 export interface WeatherData {
   location: {
     name: string;
     country: string;
     lat: number;
     lon: number;
+    /** IANA time zone of the location, e.g. "Asia/Tokyo". */
+    tzId: string;
+    /** Local date and time at the location when fetched, as "YYYY-MM-DD HH:mm". */
+    localTime: string;
   };
   current: {
     temperature: number;
     condition: string;
     description: string;
+    category: ConditionCategory;
+    isDay: boolean;
     humidity: number;
     windSpeed: number;
     pressure: number;
     visibility: number;
     uvIndex: number;
     icon: string;
+    airQuality: AirQuality | null;
   };
   forecast: DayForecast[];
+  alerts: WeatherAlert[];
+}
+
+/**
+ * Observed conditions for a single past day. Daily and hourly values share
+ * the forecast shape; chances of precipitation reflect whether any fell.
+ */
+export interface WeatherHistory {
+  location: Omit<WeatherData['location'], 'localTime'>;
+  day: DayForecast;
+}
+
+/**
+ * Pollutant concentrations in µg/m³ plus the derived air quality indices.
+ */
+export interface AirQuality {
+  pm2_5: number;
+  pm10: number;
+  o3: number;
+  no2: number;
+  so2: number;
+  co: number;
+  /** US EPA index from 1 (Good) to 6 (Hazardous). */
+  usEpaIndex: number;
+  /** UK DEFRA daily air quality index from 1 (Low) to 10 (Very High). */
+  gbDefraIndex: number;
+}
+
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+export interface WeatherAlert {
+  /** Stable identifier used to remember dismissals across refreshes. */
+  id: string;
+  severity: AlertSeverity;
+  event: string;
+  headline: string;
+  area: string;
+  /** ISO 8601 timestamp when the alert takes effect. */
+  effective: string;
+  /** ISO 8601 timestamp when the alert expires. */
+  expires: string;
+  description: string;
+  instruction: string;
 }
 
 export interface DayForecast {
@@ -28,6 +84,31 @@ export interface DayForecast {
   icon: string;
   humidity: number;
   windSpeed: number;
+  chanceOfRain: number;
+  chanceOfSnow: number;
+  totalPrecipitation: number;
+  maxUvIndex: number;
+  astro: DayAstro;
+  hours: HourForecast[];
+}
+
+export interface DayAstro {
+  /** Local time as "HH:mm", or null when the sun does not rise (polar night). */
+  sunrise: string | null;
+  /** Local time as "HH:mm", or null when the sun does not set (midnight sun). */
+  sunset: string | null;
+  moonPhase: string;
+}
+
+export interface HourForecast {
+  time: string;
+  timeEpoch: number;
+  temperature: number;
+  feelsLike: number;
+  chanceOfPrecipitation: number;
+  windSpeed: number;
+  condition: string;
+  icon: string;
 }
 
 export interface LocationSuggestion {
@@ -37,40 +118,3 @@ export interface LocationSuggestion {
   lat: number;
   lon: number;
 }
-
-export interface WeatherApiResponse {
-  location: {
-    name: string;
-    region: string;
-    country: string;
-    lat: number;
-    lon: number;
-  };
-  current: {
-    temp_c: number;
-    condition: {
-      text: string;
-      icon: string;
-    };
-    humidity: number;
-    wind_kph: number;
-    pressure_mb: number;
-    vis_km: number;
-    uv: number;
-  };
-  forecast: {
-    forecastday: Array<{
-      date: string;
-      day: {
-        maxtemp_c: number;
-        mintemp_c: number;
-        condition: {
-          text: string;
-          icon: string;
-        };
-        avghumidity: number;
-        maxwind_kph: number;
-      };
-    }>;
-  };
-}
\ No newline at end of file
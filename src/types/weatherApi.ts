@@ -0,0 +1,105 @@
+/**
+ * Raw response shapes returned by WeatherAPI.com.
+ */
+export interface WeatherApiResponse {
+  location: {
+    name: string;
+    region: string;
+    country: string;
+    lat: number;
+    lon: number;
+    tz_id: string;
+    /** Local time as "YYYY-MM-DD H:mm"; the hour is not zero-padded. */
+    localtime: string;
+  };
+  current: {
+    temp_c: number;
+    is_day: number;
+    condition: {
+      text: string;
+      icon: string;
+      code: number;
+    };
+    humidity: number;
+    wind_kph: number;
+    pressure_mb: number;
+    vis_km: number;
+    uv: number;
+    air_quality?: {
+      co: number;
+      no2: number;
+      o3: number;
+      so2: number;
+      pm2_5: number;
+      pm10: number;
+      'us-epa-index': number;
+      'gb-defra-index': number;
+    };
+  };
+  forecast: {
+    forecastday: Array<{
+      date: string;
+      day: {
+        maxtemp_c: number;
+        mintemp_c: number;
+        condition: {
+          text: string;
+          icon: string;
+        };
+        avghumidity: number;
+        maxwind_kph: number;
+        totalprecip_mm: number;
+        daily_chance_of_rain: number;
+        daily_chance_of_snow: number;
+        uv: number;
+      };
+      astro: {
+        sunrise: string;
+        sunset: string;
+        moon_phase: string;
+      };
+      hour: WeatherApiHour[];
+    }>;
+  };
+  alerts?: {
+    alert: WeatherApiAlert[];
+  };
+}
+
+/** Response of /history.json: the forecast shape without current conditions. */
+export type WeatherApiHistoryResponse = Pick<WeatherApiResponse, 'location' | 'forecast'>;
+
+export type WeatherApiForecastDay = WeatherApiResponse['forecast']['forecastday'][number];
+
+export interface WeatherApiAlert {
+  headline: string;
+  severity: string;
+  areas: string;
+  event: string;
+  effective: string;
+  expires: string;
+  desc: string;
+  instruction: string;
+}
+
+export interface WeatherApiHour {
+  time_epoch: number;
+  time: string;
+  temp_c: number;
+  feelslike_c: number;
+  condition: {
+    text: string;
+    icon: string;
+  };
+  wind_kph: number;
+  chance_of_rain: number;
+  chance_of_snow: number;
+}
+
+export interface WeatherApiSearchResult {
+  name: string;
+  region: string;
+  country: string;
+  lat: number;
+  lon: number;
+}
@@ -0,0 +1,43 @@
+import { AbortedError } from '../services/errors';
+
+/**
+ * Throws an AbortedError if the signal has already been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortedError();
+  }
+}
+
+/**
+ * Settles with the promise's outcome, or rejects with an AbortedError as soon
+ * as the signal aborts. The underlying work is not cancelled, which lets
+ * shared requests finish for their other consumers.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AbortedError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Resolves after the delay, or rejects with an AbortedError if the signal aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise<void>((resolve) => setTimeout(resolve, ms)), signal);
+}
@@ -0,0 +1,31 @@
+/**
+ * Maps over items with an async function, running at most `limit` calls at a time.
+ * Results keep the input order; failures are reported per item rather than
+ * rejecting the whole batch.
+ * @param items - The inputs to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - The async function to apply to each item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,61 @@
+/**
+ * Helpers for calendar dates written as "YYYY-MM-DD" and for wall-clock time
+ * in a location's time zone. Arithmetic is done in UTC so results do not
+ * depend on the browser's time zone.
+ */
+
+/**
+ * Shifts a date by whole days.
+ */
+export function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * 86_400_000;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Shifts a date by whole years, moving February 29 to February 28 in
+ * years without one.
+ */
+export function addYears(date: string, years: number): string {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const target = new Date(Date.UTC(year + years, month - 1, day));
+  if (target.getUTCMonth() !== month - 1) {
+    target.setUTCDate(0);
+  }
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether the runtime knows the given IANA time zone.
+ */
+export function isValidTimeZone(timeZone: string | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the wall-clock date and time in a time zone as "YYYY-MM-DD HH:mm",
+ * the format providers use for local times. Unknown zones fall back to the
+ * browser's own.
+ * @param timeZone - An IANA time zone such as "Asia/Tokyo"
+ * @param now - The instant to convert
+ */
+export function getZonedDateTime(timeZone: string | undefined, now: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}`;
+}
@@ -0,0 +1,20 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { escapeHtml } from './html';
+
+describe('escapeHtml', () => {
+  it('escapes markup and both quote characters', () => {
+    expect(escapeHtml(`<b>"Tom" & 'Jerry'</b>`)).toBe('&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;');
+  });
+
+  it('keeps a value inside the attribute it is written to', () => {
+    const name = 'x" autofocus onfocus="alert(1)';
+    const el = document.createElement('div');
+    el.innerHTML = `<button aria-label="${escapeHtml(name)}"></button><span title='${escapeHtml(name)}'></span>`;
+
+    const button = el.querySelector('button')!;
+    expect(button.getAttribute('aria-label')).toBe(name);
+    expect(button.hasAttribute('onfocus')).toBe(false);
+    expect(el.querySelector('span')!.getAttribute('title')).toBe(name);
+  });
+});
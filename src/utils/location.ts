@@ -0,0 +1,66 @@
+import type { LocationSuggestion } from '../types/weather';
+
+// ~1 km at the equator; suggestions from different searches for the same
+// place differ in the last decimals
+const COORDINATE_PRECISION = 2;
+
+// ~10 m; enough for providers to resolve the exact point that was selected
+const QUERY_PRECISION = 4;
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Returns a stable key for a location based on its rounded coordinates.
+ */
+export function getLocationKey(location: Pick<LocationSuggestion, 'lat' | 'lon'>): string {
+  return `${location.lat.toFixed(COORDINATE_PRECISION)},${location.lon.toFixed(COORDINATE_PRECISION)}`;
+}
+
+/**
+ * Returns the "lat,lon" query used to fetch weather for a location, so the
+ * provider resolves the selected point rather than a same-named city.
+ */
+export function getLocationQuery(location: Pick<LocationSuggestion, 'lat' | 'lon'>): string {
+  return `${location.lat.toFixed(QUERY_PRECISION)},${location.lon.toFixed(QUERY_PRECISION)}`;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula).
+ */
+export function getDistanceKm(
+  a: Pick<LocationSuggestion, 'lat' | 'lon'>,
+  b: Pick<LocationSuggestion, 'lat' | 'lon'>
+): number {
+  const toRadians = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Whether two locations refer to the same place, compared by coordinates
+ * rather than by name.
+ */
+export function isSameLocation(
+  a: Pick<LocationSuggestion, 'lat' | 'lon'>,
+  b: Pick<LocationSuggestion, 'lat' | 'lon'>
+): boolean {
+  return getLocationKey(a) === getLocationKey(b);
+}
+
+/**
+ * Type guard for location objects read back from storage.
+ */
+export function isLocationSuggestion(value: unknown): value is LocationSuggestion {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.name === 'string' &&
+    typeof candidate.country === 'string' &&
+    typeof candidate.lat === 'number' &&
+    typeof candidate.lon === 'number'
+  );
+}
@@ -0,0 +1,143 @@
+import type { NotificationRule, RuleMatch, RuleMetric, RuleOperator, RulePeriod } from '../types/notifications';
+import type { UnitPreferences } from '../types/units';
+import type { WeatherData } from '../types/weather';
+import { formatNumber, formatPercent, t } from '../i18n';
+import { getZonedDateTime } from './date';
+import { isLocationSuggestion } from './location';
+import { formatTemperature } from './units';
+
+export const RULE_METRICS: readonly RuleMetric[] = ['temperature', 'chanceOfRain', 'uvIndex'];
+export const RULE_OPERATORS: readonly RuleOperator[] = ['<', '<=', '>', '>='];
+export const RULE_PERIODS: readonly RulePeriod[] = ['now', 'nextHours', 'today', 'tomorrow'];
+export const RULE_COOLDOWN_OPTIONS_HOURS: readonly number[] = [1, 3, 6, 12, 24];
+
+export const DEFAULT_RULE_HOURS = 3;
+export const DEFAULT_RULE_COOLDOWN_HOURS = 6;
+export const MAX_RULE_HOURS = 48;
+// Rules can look past the location's midnight, so their data always covers tomorrow
+const MIN_RULE_FORECAST_DAYS = 2;
+
+/**
+ * Checks a rule against weather data. Every value the rule's metric takes
+ * during its period is compared with the threshold; the most extreme value
+ * that satisfies it is reported.
+ * @param rule - The rule to check; its enabled flag and cooldown are not considered
+ * @param data - Weather for the rule's location
+ * @param now - The instant "now" and "next hours" refer to
+ * @returns The match, or null when the condition does not hold
+ */
+export function evaluateRule(rule: NotificationRule, data: WeatherData, now: number = Date.now()): RuleMatch | null {
+  const matching = getMetricValues(rule, data, now).filter((value) => compare(value, rule.operator, rule.threshold));
+  if (matching.length === 0) return null;
+
+  const value = rule.operator.startsWith('<') ? Math.min(...matching) : Math.max(...matching);
+  return { rule, value };
+}
+
+/**
+ * How many forecast days the rule's location must be loaded with for the
+ * rule to see every hour and day of its period.
+ */
+export function getRuleForecastDays(rule: NotificationRule): number {
+  const hours = rule.period === 'nextHours' ? rule.hours : 0;
+  return Math.max(MIN_RULE_FORECAST_DAYS, 1 + Math.ceil(hours / 24));
+}
+
+/**
+ * Whether the rule fired too recently to fire again.
+ */
+export function isRuleCoolingDown(rule: NotificationRule, now: number = Date.now()): boolean {
+  return rule.lastTriggeredAt !== null && now - rule.lastTriggeredAt < rule.cooldownHours * 3_600_000;
+}
+
+/**
+ * Describes the rule's condition in the current locale, e.g.
+ * "Temperature below 0°C tomorrow".
+ */
+export function describeRule(rule: NotificationRule, units: UnitPreferences): string {
+  return t('notifications.ruleSummary', {
+    metric: t(`notifications.metric.${rule.metric}`),
+    operator: t(`notifications.operator.${rule.operator}`),
+    threshold: formatMetricValue(rule.metric, rule.threshold, units),
+    period:
+      rule.period === 'nextHours'
+        ? t('notifications.period.nextHours', { count: rule.hours })
+        : t(`notifications.period.${rule.period}`),
+  });
+}
+
+/**
+ * Formats a value of the given metric for display.
+ */
+export function formatMetricValue(metric: RuleMetric, value: number, units: UnitPreferences): string {
+  switch (metric) {
+    case 'temperature':
+      return formatTemperature(value, units);
+    case 'chanceOfRain':
+      return formatPercent(value);
+    default:
+      return formatNumber(value, { maximumFractionDigits: 1 });
+  }
+}
+
+/**
+ * Creates an id that is unique enough for rules saved on one device.
+ */
+export function createRuleId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isNotificationRule(value: unknown): value is NotificationRule {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === 'string' &&
+    RULE_METRICS.includes(candidate.metric as RuleMetric) &&
+    RULE_OPERATORS.includes(candidate.operator as RuleOperator) &&
+    RULE_PERIODS.includes(candidate.period as RulePeriod) &&
+    Number.isFinite(candidate.threshold) &&
+    Number.isInteger(candidate.hours) &&
+    Number.isFinite(candidate.cooldownHours) &&
+    typeof candidate.enabled === 'boolean' &&
+    (candidate.location === null || isLocationSuggestion(candidate.location)) &&
+    (candidate.lastTriggeredAt === null || Number.isFinite(candidate.lastTriggeredAt))
+  );
+}
+
+function compare(value: number, operator: RuleOperator, threshold: number): boolean {
+  switch (operator) {
+    case '<':
+      return value < threshold;
+    case '<=':
+      return value <= threshold;
+    case '>':
+      return value > threshold;
+    default:
+      return value >= threshold;
+  }
+}
+
+function getMetricValues(rule: NotificationRule, data: WeatherData, now: number): number[] {
+  const { metric } = rule;
+
+  if (rule.period === 'today' || rule.period === 'tomorrow') {
+    const today = getZonedDateTime(data.location.tzId, new Date(now)).slice(0, 10);
+    const index = data.forecast.findIndex((day) => day.date === today);
+    const day = data.forecast[(index === -1 ? 0 : index) + (rule.period === 'tomorrow' ? 1 : 0)];
+    if (!day) return [];
+
+    if (metric === 'temperature') return [day.minTemp, day.maxTemp];
+    return [metric === 'chanceOfRain' ? day.chanceOfRain : day.maxUvIndex];
+  }
+
+  // The forecast has no hourly UV index, so hourly periods use the current reading
+  if (metric === 'uvIndex') return [data.current.uvIndex];
+  if (rule.period === 'now' && metric === 'temperature') return [data.current.temperature];
+
+  // Include the hour in progress
+  const from = now / 1000 - 3600;
+  const to = now / 1000 + (rule.period === 'now' ? 0 : rule.hours * 3600);
+  const hours = data.forecast.flatMap((day) => day.hours).filter((hour) => hour.timeEpoch > from && hour.timeEpoch <= to);
+
+  return hours.map((hour) => (metric === 'temperature' ? hour.temperature : hour.chanceOfPrecipitation));
+}
@@ -0,0 +1,40 @@
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+/**
+ * The browser's notification permission, or "unsupported" without the Notification API.
+ */
+export function getNotificationPermission(): NotificationSupport {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Asks for permission to show notifications. Must be called from a user
+ * gesture; browsers ignore or penalize unprompted requests.
+ */
+export async function requestNotificationPermission(): Promise<NotificationSupport> {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+/**
+ * Shows a system notification if the user allowed them.
+ * @param tag - Notifications with the same tag replace each other
+ * @returns Whether the notification was shown
+ */
+export function showSystemNotification(title: string, body: string, tag: string): boolean {
+  if (getNotificationPermission() !== 'granted') return false;
+
+  try {
+    new Notification(title, { body, tag });
+    return true;
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+    return false;
+  }
+}
@@ -0,0 +1,71 @@
+import type { WeatherData } from '../types/weather';
+
+const DB_NAME = 'weather-app';
+const DB_VERSION = 1;
+const STORE_SNAPSHOTS = 'snapshots';
+
+export interface WeatherSnapshot {
+  key: string;
+  data: WeatherData;
+  /** Epoch milliseconds when the data was fetched. */
+  savedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) {
+          db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      // Allow a later call to retry, e.g. after the user leaves private browsing
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(STORE_SNAPSHOTS, mode);
+        const request = operation(transaction.objectStore(STORE_SNAPSHOTS));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+  );
+}
+
+/**
+ * Stores the latest successful weather data for a location in IndexedDB,
+ * replacing any previous snapshot under the same key.
+ */
+export async function saveWeatherSnapshot(key: string, data: WeatherData): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.put({ key, data, savedAt: Date.now() } satisfies WeatherSnapshot));
+  } catch {
+    // IndexedDB unavailable (private mode, quota) — offline fallback is best effort
+  }
+}
+
+/**
+ * Reads the last stored weather data for a location, or null if none exists.
+ */
+export async function loadWeatherSnapshot(key: string): Promise<WeatherSnapshot | null> {
+  try {
+    const snapshot = await runRequest<WeatherSnapshot | undefined>('readonly', (store) => store.get(key));
+    return snapshot ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import type { LocationSuggestion } from '../types/weather';
+import { DEFAULT_UNIT_PREFERENCES } from './units';
+import { getStorageItem, getStorageKey } from './storage';
+import { loadPreferences, STORAGE_SCHEMA_VERSION } from './preferences';
+
+const LONDON: LocationSuggestion = {
+  name: 'London',
+  country: 'United Kingdom',
+  region: 'City of London',
+  lat: 51.52,
+  lon: -0.11,
+};
+
+function store(key: string, value: unknown): void {
+  localStorage.setItem(getStorageKey(key), JSON.stringify(value));
+}
+
+describe('loadPreferences', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('moves preferences from separate legacy keys into one current document', () => {
+    store('lastLocation', LONDON);
+    store('temperatureUnit', 'F');
+    store('forecastDays', 7);
+
+    const expected = {
+      currentLocation: LONDON,
+      units: { ...DEFAULT_UNIT_PREFERENCES, temperature: 'F' },
+      forecastDays: 7,
+    };
+    expect(loadPreferences()).toEqual(expected);
+    expect(getStorageItem('preferences')).toEqual({ version: 2, data: expected });
+    expect(getStorageItem('lastLocation')).toBeNull();
+    expect(getStorageItem('temperatureUnit')).toBeNull();
+    expect(getStorageItem('forecastDays')).toBeNull();
+  });
+
+  it('leaves data from a newer schema version unmigrated', () => {
+    const data = {
+      currentLocation: LONDON,
+      units: { ...DEFAULT_UNIT_PREFERENCES, windSpeed: 'mph' },
+      locale: 'de',
+      favorites: [LONDON],
+    };
+    const document = { version: STORAGE_SCHEMA_VERSION + 1, data };
+    store('preferences', document);
+
+    expect(loadPreferences()).toEqual(data);
+    expect(getStorageItem('preferences')).toEqual(document);
+  });
+
+  it('drops invalid values and keeps the valid ones', () => {
+    store('preferences', {
+      version: STORAGE_SCHEMA_VERSION,
+      data: {
+        currentLocation: { name: 'Nowhere' },
+        forecastDays: 4,
+        locale: 'es',
+        theme: 'sepia',
+        ambientBackground: false,
+        favorites: [LONDON, 'Paris', null],
+      },
+    });
+
+    expect(loadPreferences()).toEqual({
+      locale: 'es',
+      ambientBackground: false,
+      favorites: [LONDON],
+    });
+  });
+
+  it('rejects values that name inherited object properties', () => {
+    store('preferences', {
+      version: STORAGE_SCHEMA_VERSION,
+      data: {
+        locale: 'constructor',
+        theme: 'toString',
+        units: { ...DEFAULT_UNIT_PREFERENCES, temperature: '__proto__', windSpeed: 'mph' },
+      },
+    });
+
+    expect(loadPreferences()).toEqual({
+      units: { ...DEFAULT_UNIT_PREFERENCES, windSpeed: 'mph' },
+    });
+  });
+});
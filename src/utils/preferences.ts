@@ -0,0 +1,214 @@
+import { API_CONFIG } from '../config/api';
+import type { PersistedPreferences } from '../types/state';
+import type { UnitPreferences } from '../types/units';
+import { isLocale } from '../i18n';
+import { getStorageItem, getStorageKey, parseStorageValue, removeStorageItem, setStorageItem } from './storage';
+import { isLocationSuggestion } from './location';
+import { isNotificationRule } from './notificationRules';
+import { isThemePreference } from './theme';
+import { normalizeUnitPreferences } from './units';
+
+const STORAGE_KEY_PREFERENCES = 'preferences';
+
+// Before versioning, each preference had its own storage key
+const LEGACY_STORAGE_KEYS = [
+  'lastLocation',
+  'unitPreferences',
+  'temperatureUnit',
+  'forecastDays',
+  'locale',
+  'theme',
+  'ambientBackground',
+  'dismissedAlerts',
+  'favorites',
+  'recentSearches',
+] as const;
+
+type PreferenceData = Record<string, unknown>;
+type Migration = (data: PreferenceData) => PreferenceData;
+
+interface PreferenceDocument {
+  version: number;
+  data: PreferenceData;
+}
+
+/**
+ * Upgrades saved preferences one schema version at a time: entry N turns
+ * version N data into version N + 1. Append a migration whenever the saved
+ * shape changes; never edit or reorder the existing ones.
+ */
+const MIGRATIONS: readonly Migration[] = [
+  // 0 → 1: fold the pre-UnitPreferences 'C' | 'F' temperatureUnit into unitPreferences
+  ({ temperatureUnit, ...data }) => ({
+    ...data,
+    unitPreferences:
+      data.unitPreferences ??
+      (temperatureUnit === 'C' || temperatureUnit === 'F' ? { temperature: temperatureUnit } : undefined),
+  }),
+  // 1 → 2: one document named after the AppState fields instead of a key per preference
+  ({ lastLocation, unitPreferences, ...data }) => ({
+    ...data,
+    currentLocation: lastLocation,
+    units: unitPreferences,
+  }),
+];
+
+export const STORAGE_SCHEMA_VERSION = MIGRATIONS.length;
+
+/**
+ * Loads saved preferences, migrating them to the current schema version and
+ * dropping any value that fails validation. Preferences saved in the
+ * unversioned one-key-per-preference layout are moved into a single
+ * versioned document.
+ * @returns The valid preferences; missing ones should keep their defaults
+ */
+export function loadPreferences(): Partial<PersistedPreferences> {
+  const document = parseDocument(getStorageItem<unknown>(STORAGE_KEY_PREFERENCES));
+  if (document) {
+    return validatePreferences(migrate(document));
+  }
+
+  const legacy = readLegacyPreferences();
+  if (!legacy) return {};
+
+  const preferences = validatePreferences(migrate({ version: 0, data: legacy }));
+  try {
+    setStorageItem(STORAGE_KEY_PREFERENCES, toDocument(preferences));
+    LEGACY_STORAGE_KEYS.forEach(removeStorageItem);
+  } catch {
+    // Storage is full: keep the legacy keys so the migration runs again next time
+  }
+  return preferences;
+}
+
+/**
+ * Saves the preferences as a document tagged with the current schema version.
+ * @throws {StorageQuotaError} If the storage is full
+ */
+export function savePreferences(preferences: PersistedPreferences): void {
+  setStorageItem(STORAGE_KEY_PREFERENCES, toDocument(preferences));
+}
+
+/**
+ * Listens for preferences saved by the app in other tabs or windows.
+ * @param callback - Called with the migrated, validated preferences
+ * @returns A function that stops listening
+ */
+export function watchPreferences(callback: (preferences: Partial<PersistedPreferences>) => void): () => void {
+  const key = getStorageKey(STORAGE_KEY_PREFERENCES);
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== key) return;
+    const document = parseDocument(parseStorageValue<unknown>(e.newValue));
+    if (document) {
+      callback(validatePreferences(migrate(document)));
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => {
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+export function isForecastDayOption(value: unknown): value is number {
+  return (API_CONFIG.FORECAST_DAY_OPTIONS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Drops dismissals whose alert has expired, keeping entries with unparseable expiry.
+ */
+export function pruneExpiredAlerts(dismissals: Record<string, string>): Record<string, string> {
+  const now = Date.now();
+  const result: Record<string, string> = {};
+  for (const [id, expires] of Object.entries(dismissals)) {
+    const expiresAt = Date.parse(expires);
+    if (Number.isNaN(expiresAt) || expiresAt > now) {
+      result[id] = expires;
+    }
+  }
+  return result;
+}
+
+function toDocument(preferences: Partial<PersistedPreferences>): PreferenceDocument {
+  return { version: STORAGE_SCHEMA_VERSION, data: preferences };
+}
+
+function parseDocument(value: unknown): PreferenceDocument | null {
+  if (!isRecord(value)) return null;
+  const { version, data } = value;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0 || !isRecord(data)) {
+    return null;
+  }
+  return { version, data };
+}
+
+/**
+ * Runs the migrations from the document's version up to the current one.
+ * Data from a newer build is passed through as-is; validation keeps what
+ * this build understands.
+ */
+function migrate({ version, data }: PreferenceDocument): PreferenceData {
+  return MIGRATIONS.slice(version).reduce((result, migration) => migration(result), data);
+}
+
+function readLegacyPreferences(): PreferenceData | null {
+  const data: PreferenceData = {};
+  let found = false;
+  for (const key of LEGACY_STORAGE_KEYS) {
+    const value = getStorageItem<unknown>(key);
+    if (value !== null) {
+      data[key] = value;
+      found = true;
+    }
+  }
+  return found ? data : null;
+}
+
+/**
+ * Keeps the values that match the current schema, sanitizing the ones
+ * that can be repaired.
+ */
+function validatePreferences(data: PreferenceData): Partial<PersistedPreferences> {
+  const result: Partial<PersistedPreferences> = {};
+
+  if (isLocationSuggestion(data.currentLocation)) {
+    result.currentLocation = data.currentLocation;
+  }
+  if (isRecord(data.units)) {
+    result.units = normalizeUnitPreferences(data.units as Partial<UnitPreferences>);
+  }
+  if (isForecastDayOption(data.forecastDays)) {
+    result.forecastDays = data.forecastDays;
+  }
+  if (isLocale(data.locale)) {
+    result.locale = data.locale;
+  }
+  if (isThemePreference(data.theme)) {
+    result.theme = data.theme;
+  }
+  if (typeof data.ambientBackground === 'boolean') {
+    result.ambientBackground = data.ambientBackground;
+  }
+  if (isRecord(data.dismissedAlerts)) {
+    const dismissals = Object.entries(data.dismissedAlerts).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    );
+    result.dismissedAlerts = pruneExpiredAlerts(Object.fromEntries(dismissals));
+  }
+  if (Array.isArray(data.favorites)) {
+    result.favorites = data.favorites.filter(isLocationSuggestion);
+  }
+  if (Array.isArray(data.recentSearches)) {
+    result.recentSearches = data.recentSearches.filter(isLocationSuggestion);
+  }
+  if (Array.isArray(data.notificationRules)) {
+    result.notificationRules = data.notificationRules.filter(isNotificationRule);
+  }
+
+  return result;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
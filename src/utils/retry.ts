@@ -0,0 +1,53 @@
+import { WeatherServiceError } from '../services/errors';
+import { sleep, throwIfAborted } from './abort';
+
+export interface RetryOptions {
+  /** Total attempts including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Give up instead of waiting when the server asks for a longer pause. */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30_000,
+};
+
+/**
+ * Runs the operation, retrying retryable WeatherServiceErrors with
+ * exponential backoff and full jitter. A server-provided Retry-After
+ * delay takes precedence over the computed backoff. Aborting the signal
+ * stops further attempts, including while waiting between them.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      const delay = getRetryDelay(error, attempt, options);
+      if (delay === null || signal?.aborted) throw error;
+      await sleep(delay, signal);
+    }
+  }
+}
+
+function getRetryDelay(error: unknown, attempt: number, options: RetryOptions): number | null {
+  if (!(error instanceof WeatherServiceError) || !error.retryable) return null;
+  if (attempt >= options.maxAttempts) return null;
+
+  if (error.retryAfterMs !== null) {
+    return error.retryAfterMs <= options.maxRetryAfterMs ? error.retryAfterMs : null;
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
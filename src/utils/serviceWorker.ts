@@ -0,0 +1,15 @@
+/**
+ * Registers the app-shell service worker in production builds.
+ * Registration failures are logged but never block the app.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch((error: unknown) => {
+        console.warn('[WeatherApp] Service worker registration failed:', error);
+      });
+  });
+}
@@ -1,26 +1,62 @@
 const STORAGE_PREFIX = 'weather-app:';
 
+/**
+ * Raised when a write is rejected because the storage quota is used up.
+ */
+export class StorageQuotaError extends Error {
+  readonly key: string;
+  readonly cause: unknown;
+
+  constructor(key: string, cause: unknown) {
+    super(`Storage quota exceeded while saving "${key}"`);
+    this.name = 'StorageQuotaError';
+    this.key = key;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The full localStorage key for an app key, as seen in storage events.
+ */
+export function getStorageKey(key: string): string {
+  return STORAGE_PREFIX + key;
+}
+
+/**
+ * Parses a raw stored value, returning null if it is missing or unparseable.
+ */
+export function parseStorageValue<T>(raw: string | null): T | null {
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Reads a value from localStorage, returning null if unavailable or unparseable.
  */
 export function getStorageItem<T>(key: string): T | null {
   try {
-    const raw = localStorage.getItem(STORAGE_PREFIX + key);
-    if (raw === null) return null;
-    return JSON.parse(raw) as T;
+    return parseStorageValue<T>(localStorage.getItem(getStorageKey(key)));
   } catch {
     return null;
   }
 }
 
 /**
- * Writes a value to localStorage as JSON.
+ * Writes a value to localStorage as JSON. Does nothing when storage is
+ * unavailable (e.g. blocked by privacy settings).
+ * @throws {StorageQuotaError} If the storage is full
  */
 export function setStorageItem<T>(key: string, value: T): void {
   try {
-    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
-  } catch {
-    // Storage full or unavailable — silently ignore
+    localStorage.setItem(getStorageKey(key), JSON.stringify(value));
+  } catch (error) {
+    if (isQuotaExceeded(error)) {
+      throw new StorageQuotaError(key, error);
+    }
   }
 }
 
@@ -29,8 +65,19 @@ export function setStorageItem<T>(key: string, value: T): void {
  */
 export function removeStorageItem(key: string): void {
   try {
-    localStorage.removeItem(STORAGE_PREFIX + key);
+    localStorage.removeItem(getStorageKey(key));
   } catch {
     // Ignore
   }
 }
+
+function isQuotaExceeded(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  // Firefox reports NS_ERROR_DOM_QUOTA_REACHED; older engines only set the legacy codes
+  return (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+}
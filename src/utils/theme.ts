@@ -0,0 +1,18 @@
+import type { ThemePreference } from '../types/theme';
+import type { MessageKey } from '../i18n';
+
+export const DEFAULT_THEME: ThemePreference = 'auto';
+
+/**
+ * Message keys for the label of every theme, used by the settings panel.
+ */
+export const THEME_OPTIONS: Record<ThemePreference, MessageKey> = {
+  auto: 'theme.auto',
+  light: 'theme.light',
+  dark: 'theme.dark',
+  'high-contrast': 'theme.high-contrast',
+};
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return typeof value === 'string' && Object.keys(THEME_OPTIONS).includes(value);
+}
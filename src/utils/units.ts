@@ -0,0 +1,185 @@
+import type {
+  UnitPreferences,
+  TemperatureUnit,
+  WindSpeedUnit,
+  PressureUnit,
+  DistanceUnit,
+  PrecipitationUnit,
+} from '../types/units';
+import { formatNumber, type MessageKey } from '../i18n';
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  temperature: 'C',
+  windSpeed: 'kmh',
+  pressure: 'hPa',
+  distance: 'km',
+  precipitation: 'mm',
+};
+
+/**
+ * Message keys for the label of every supported unit, used by the settings panel.
+ */
+export const UNIT_OPTIONS = {
+  temperature: { C: 'units.temperature.C', F: 'units.temperature.F' },
+  windSpeed: {
+    kmh: 'units.windSpeed.kmh',
+    mph: 'units.windSpeed.mph',
+    ms: 'units.windSpeed.ms',
+    kn: 'units.windSpeed.kn',
+    bft: 'units.windSpeed.bft',
+  },
+  pressure: { hPa: 'units.pressure.hPa', inHg: 'units.pressure.inHg', mmHg: 'units.pressure.mmHg' },
+  distance: { km: 'units.distance.km', mi: 'units.distance.mi' },
+  precipitation: { mm: 'units.precipitation.mm', in: 'units.precipitation.in' },
+} as const satisfies { [K in keyof UnitPreferences]: Record<UnitPreferences[K], MessageKey> };
+
+const WIND_SPEED_SUFFIX: Record<Exclude<WindSpeedUnit, 'bft'>, string> = {
+  kmh: 'km/h',
+  mph: 'mph',
+  ms: 'm/s',
+  kn: 'kn',
+};
+
+// Lower bound in km/h of Beaufort forces 1–12
+const BEAUFORT_THRESHOLDS_KPH = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? (celsius * 9) / 5 + 32 : celsius;
+}
+
+/**
+ * Converts a temperature entered in the display unit back to Celsius.
+ */
+export function toCelsius(value: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? ((value - 32) * 5) / 9 : value;
+}
+
+// A difference between two temperatures scales without the 32° offset
+export function convertTemperatureDifference(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'F' ? (celsius * 9) / 5 : celsius;
+}
+
+export function convertWindSpeed(kph: number, unit: WindSpeedUnit): number {
+  switch (unit) {
+    case 'mph':
+      return kph / 1.609344;
+    case 'ms':
+      return kph / 3.6;
+    case 'kn':
+      return kph / 1.852;
+    case 'bft':
+      return toBeaufort(kph);
+    default:
+      return kph;
+  }
+}
+
+export function convertPressure(hPa: number, unit: PressureUnit): number {
+  switch (unit) {
+    case 'inHg':
+      return hPa * 0.0295299830714;
+    case 'mmHg':
+      return hPa * 0.750061683;
+    default:
+      return hPa;
+  }
+}
+
+export function convertDistance(km: number, unit: DistanceUnit): number {
+  return unit === 'mi' ? km / 1.609344 : km;
+}
+
+export function convertPrecipitation(mm: number, unit: PrecipitationUnit): number {
+  return unit === 'in' ? mm / 25.4 : mm;
+}
+
+/**
+ * Formats a Celsius temperature in the preferred unit, e.g. "21°C".
+ * @param options.unitLabel - Set to false for a bare "21°" inside dense layouts
+ */
+export function formatTemperature(
+  celsius: number,
+  units: UnitPreferences,
+  options: { unitLabel?: boolean } = {}
+): string {
+  const value = formatFixed(convertTemperature(celsius, units.temperature), 0);
+  return options.unitLabel === false ? `${value}°` : `${value}°${units.temperature}`;
+}
+
+/**
+ * Formats a km/h wind speed in the preferred unit, e.g. "12 mph" or "Bft 4".
+ */
+export function formatWindSpeed(kph: number, units: UnitPreferences): string {
+  if (units.windSpeed === 'bft') {
+    return `Bft ${toBeaufort(kph)}`;
+  }
+  const value = convertWindSpeed(kph, units.windSpeed);
+  const rounded = formatFixed(value, units.windSpeed === 'ms' ? 1 : 0);
+  return `${rounded} ${WIND_SPEED_SUFFIX[units.windSpeed]}`;
+}
+
+/**
+ * Formats an hPa pressure in the preferred unit, e.g. "29.92 inHg".
+ */
+export function formatPressure(hPa: number, units: UnitPreferences): string {
+  const value = convertPressure(hPa, units.pressure);
+  const rounded = formatFixed(value, units.pressure === 'inHg' ? 2 : 0);
+  return `${rounded} ${units.pressure}`;
+}
+
+/**
+ * Formats a kilometre distance in the preferred unit, e.g. "6 mi".
+ */
+export function formatDistance(km: number, units: UnitPreferences): string {
+  const value = convertDistance(km, units.distance);
+  const rounded = formatNumber(value < 10 ? Math.round(value * 10) / 10 : Math.round(value));
+  return `${rounded} ${units.distance}`;
+}
+
+/**
+ * Formats a millimetre precipitation amount in the preferred unit, e.g. "0.12 in".
+ */
+export function formatPrecipitation(mm: number, units: UnitPreferences): string {
+  const value = convertPrecipitation(mm, units.precipitation);
+  const rounded = formatFixed(value, units.precipitation === 'in' ? 2 : 1);
+  return `${rounded} ${units.precipitation}`;
+}
+
+/**
+ * Returns a copy of the given value with any invalid or missing fields
+ * replaced by the defaults. Used to sanitize persisted preferences.
+ */
+export function normalizeUnitPreferences(value: Partial<UnitPreferences> | null | undefined): UnitPreferences {
+  const result: UnitPreferences = { ...DEFAULT_UNIT_PREFERENCES };
+  if (!value || typeof value !== 'object') return result;
+
+  for (const key of Object.keys(UNIT_OPTIONS) as Array<keyof UnitPreferences>) {
+    const candidate = value[key];
+    if (typeof candidate === 'string' && Object.keys(UNIT_OPTIONS[key]).includes(candidate)) {
+      (result[key] as string) = candidate;
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether two preference sets select the same unit for every quantity.
+ */
+export function areUnitPreferencesEqual(a: UnitPreferences, b: UnitPreferences): boolean {
+  return (Object.keys(UNIT_OPTIONS) as Array<keyof UnitPreferences>).every((key) => a[key] === b[key]);
+}
+
+/**
+ * Formats a value with a fixed number of decimals in the current locale.
+ * Rounds first so values just below zero never show as "-0".
+ */
+function formatFixed(value: number, fractionDigits: number): string {
+  const factor = 10 ** fractionDigits;
+  const rounded = Math.round(value * factor) / factor || 0;
+  return formatNumber(rounded, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+}
+
+function toBeaufort(kph: number): number {
+  const force = BEAUFORT_THRESHOLDS_KPH.findIndex((threshold) => kph < threshold);
+  return force === -1 ? BEAUFORT_THRESHOLDS_KPH.length : force;
+}
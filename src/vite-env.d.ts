@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WEATHER_API_KEY?: string;
+  readonly VITE_WEATHER_PROVIDER?: string;
+}
+
+interface Window {
+  /** State debugging hooks; only set in development builds. */
+  __weatherDevtools?: import('./types/state').StateDevtools;
+}
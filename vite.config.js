@@ -1,10 +1,29 @@
 import { defineConfig } from 'vite';
 
+/**
+ * Emits precache-manifest.json listing every built file so the service
+ * worker can precache the hashed app-shell assets on install.
+ */
+function precacheManifest() {
+  return {
+    name: 'precache-manifest',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.json',
+        source: JSON.stringify(Object.keys(bundle))
+      });
+    }
+  };
+}
+
 export default defineConfig({
   server: {
     port: 3000
   },
   build: {
     outDir: 'dist'
-  }
-});
\ No newline at end of file
+  },
+  plugins: [precacheManifest()]
+});